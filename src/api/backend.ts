@@ -0,0 +1,236 @@
+/**
+ * Translation backend interface.
+ * Each provider (OpenAI-compatible, Ollama, llama.cpp, LibreTranslate) implements this;
+ * the background worker only talks to backends through it. See factory.ts.
+ */
+
+import type { CorrectionExample } from "../config/corrections";
+import type { GlossaryEntry } from "../config/glossary";
+import type { PromptPreset } from "../config/prompts";
+import type { ContextLine } from "../shared/messages";
+import {
+    extractPartialTranslation,
+    parseBatch,
+    parseTranslation,
+    type ParseResult,
+    type ParsedTranslation,
+} from "./parser";
+import {
+    batchMaxTokens,
+    batchPrompt,
+    messageMaxTokens,
+    presetOf,
+    singlePrompt,
+    systemPrompt,
+} from "./prompt";
+
+/** Everything besides the text itself that shapes a translation request. */
+export interface TranslateOptions {
+    targetLang: string;
+    sourceLang?: string;
+    /** Preceding chat lines, given to LLM backends as untranslated context. */
+    context?: ContextLine[];
+    /** Upper bound on the estimated tokens spent on `context`. */
+    contextTokenBudget?: number;
+    /** Glossary entries that occur in the text(s) being translated. */
+    glossary?: GlossaryEntry[];
+    /** User-corrected translations of similar lines, shown to LLM backends as examples. */
+    examples?: CorrectionExample[];
+    /** Prompt templates and sampling parameters; the built-in preset when missing. */
+    prompt?: PromptPreset;
+    /** Aborts the HTTP request(s); on timeout its reason is a "TimeoutError" DOMException. */
+    signal?: AbortSignal;
+    /** Called after each completion whose server reported token counts. */
+    onUsage?: (usage: TokenUsage) => void;
+    /** Also ask LLM backends for each line's reading in hiragana (Japanese with kanji). */
+    readings?: boolean;
+    /** Called with a line's reading, by its index in the request, when the model gave one. */
+    onReading?: (index: number, reading: string) => void;
+}
+
+/** Token counts as reported by the server (OpenAI `usage` or the provider's equivalent). */
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+/** Non-2xx HTTP response from a backend. */
+export class ApiError extends Error {
+    readonly status: number;
+
+    constructor(status: number, statusText: string) {
+        super(`API ${status}: ${statusText}`);
+        this.name = "ApiError";
+        this.status = status;
+    }
+}
+
+export interface TranslationBackend {
+    translate(text: string, options: TranslateOptions): Promise<string>;
+
+    /**
+     * Cheap reachability check that does not run the model (e.g. listing models).
+     * Used to probe an endpoint whose circuit breaker is open.
+     * @throws if the server is unreachable or answers with an error status
+     */
+    healthCheck(): Promise<void>;
+
+    /**
+     * Streams the translation, reporting partial text through `onPartial`.
+     * Optional — callers fall back to `translate` when missing.
+     */
+    translateStream?(
+        text: string,
+        options: TranslateOptions,
+        onPartial: (partial: string) => void
+    ): Promise<string>;
+
+    /**
+     * Translates several lines in one request, results in input order.
+     * Optional — callers fall back to one `translate` per line when missing.
+     * @throws BatchMismatchError if the response cannot be matched to the input
+     */
+    translateBatch?(texts: string[], options: TranslateOptions): Promise<string[]>;
+}
+
+/** A system + user prompt pair, as sent to chat-style backends. */
+export interface PromptMessages {
+    system: string;
+    user: string;
+}
+
+/** Sampling parameters for one completion, from the prompt preset. */
+export interface Sampling {
+    maxTokens: number;
+    temperature: number;
+    topP: number;
+}
+
+/** Output of one completion; `usage` only when the server reports it. */
+export interface Completion {
+    content: string;
+    usage?: TokenUsage;
+}
+
+/** Both prompts as one text, for recognising echoes of either in the reply. */
+function promptText(prompt: PromptMessages): string {
+    return `${prompt.system}\n${prompt.user}`;
+}
+
+/** Passes on the reading of a single-line reply and returns its translation. */
+function accept(result: ParsedTranslation, options: TranslateOptions): string {
+    if (result.reading) options.onReading?.(0, result.reading);
+    return result.translation;
+}
+
+/**
+ * Base for backends that run an LLM with our JSON prompts.
+ * Subclasses only implement the transport in `complete`.
+ */
+export abstract class LlmBackend implements TranslationBackend {
+    abstract healthCheck(): Promise<void>;
+
+    async translate(text: string, options: TranslateOptions): Promise<string> {
+        const prompt = { system: systemPrompt(options), user: singlePrompt(text, options) };
+        const content = await this.run(prompt, messageMaxTokens(options), options);
+        return this.acceptOrRetry(text, options, parseTranslation(content, text, promptText(prompt)));
+    }
+
+    async translateStream(
+        text: string,
+        options: TranslateOptions,
+        onPartial: (partial: string) => void
+    ): Promise<string> {
+        let last = "";
+        const prompt = { system: systemPrompt(options), user: singlePrompt(text, options) };
+        const content = await this.run(
+            prompt,
+            messageMaxTokens(options),
+            options,
+            (soFar) => {
+                const partial = extractPartialTranslation(soFar);
+                if (partial && partial !== last) {
+                    last = partial;
+                    onPartial(partial);
+                }
+            }
+        );
+        return this.acceptOrRetry(text, options, parseTranslation(content, text, promptText(prompt)));
+    }
+
+    async translateBatch(texts: string[], options: TranslateOptions): Promise<string[]> {
+        const prompt = { system: systemPrompt(options), user: batchPrompt(texts, options) };
+        const content = await this.run(prompt, batchMaxTokens(texts.length, options), options);
+        return parseBatch(content, texts, promptText(prompt), options.onReading);
+    }
+
+    /**
+     * Returns the parsed translation, or retries once when the reply was unusable:
+     * with double the token budget if it was cut off, otherwise with a stricter prompt.
+     * @throws Error if the retry is unusable too
+     */
+    private async acceptOrRetry(text: string, options: TranslateOptions, first: ParseResult): Promise<string> {
+        if (first.ok) return accept(first, options);
+
+        console.warn(`[SOOP Translator] Unusable model output (${first.reason}), retrying once`);
+        const truncated = first.reason === "truncated";
+        const prompt = { system: systemPrompt(options), user: singlePrompt(text, options, !truncated) };
+        const content = await this.run(prompt, messageMaxTokens(options) * (truncated ? 2 : 1), options);
+        const retry = parseTranslation(content, text, promptText(prompt));
+        if (retry.ok) return accept(retry, options);
+
+        throw new Error(`Unusable model output (${retry.reason})`);
+    }
+
+    /** Runs one completion with the preset's sampling, reports its token usage and returns the output text. */
+    private async run(
+        prompt: PromptMessages,
+        maxTokens: number,
+        options: TranslateOptions,
+        onContent?: (soFar: string) => void
+    ): Promise<string> {
+        const { temperature, topP } = presetOf(options);
+        const { content, usage } = await this.complete(prompt, { maxTokens, temperature, topP }, options.signal, onContent);
+        if (usage) options.onUsage?.(usage);
+        return content;
+    }
+
+    /**
+     * Runs one completion and returns the trimmed output text, with token counts
+     * when the server reports them.
+     * When `onContent` is given the request should be streamed, calling `onContent`
+     * with the accumulated output after every chunk. Servers that ignore streaming
+     * may simply return the whole body. `signal` must be passed on to `fetch`.
+     */
+    protected abstract complete(
+        prompt: PromptMessages,
+        sampling: Sampling,
+        signal: AbortSignal | undefined,
+        onContent?: (soFar: string) => void
+    ): Promise<Completion>;
+}
+
+// Health checks only list models or languages; anything slower counts as down.
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+/** GETs `url` and throws unless it answers 2xx. Shared by `healthCheck` implementations. */
+export async function checkReachable(url: string, apiKey?: string): Promise<void> {
+    const response = await fetch(url, {
+        headers: jsonHeaders(apiKey),
+        signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+        throw new ApiError(response.status, response.statusText);
+    }
+}
+
+/** Builds request headers, adding a bearer token when an API key is set. */
+export function jsonHeaders(apiKey?: string): Record<string, string> {
+    const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+    };
+    if (apiKey) {
+        headers["Authorization"] = `Bearer ${apiKey}`;
+    }
+    return headers;
+}
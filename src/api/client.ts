@@ -2,101 +2,137 @@
  * OpenAI-compatible API client for translation.
  * Targets the local Snapdragon NPU server at localhost:18181.
  *
- * Request is intentionally minimal — only fields the NPU server actually needs.
+ * Request is intentionally minimal — only fields the server actually needs.
+ * The NPU server's vendor fields (`ngl`, `enable_think`, `enable_json`) are only sent
+ * when `npuExtensions` is on, i.e. for the "npu" provider.
+ * Supports SSE streaming with a fallback for servers that ignore `stream`.
  */
 
+import { ApiError, LlmBackend, checkReachable, jsonHeaders, type Completion, type PromptMessages, type Sampling } from "./backend";
+import { readEventStream } from "./stream";
+
+interface ChatMessage {
+    role: "system" | "user";
+    content: string;
+}
+
 interface ChatCompletionRequest {
     model: string;
-    messages: Array<{ role: "system" | "user"; content: string }>;
+    messages: ChatMessage[];
     temperature: number;
     top_p: number;
     max_completion_tokens: number;
-    stream: false;
-    ngl: number;       // NPU layer offload count (999 = all)
-    enable_think: false; // Qwen3 thinking mode — disabled for speed
-    enable_json?: true;  // Tell NPU to output JSON if supported
+    stream: boolean;
+    ngl?: number;        // NPU layer offload count (999 = all)
+    enable_think?: false; // Qwen3 thinking mode — disabled for speed
+    enable_json?: true;   // Tell NPU to output JSON if supported
+}
+
+interface ChatCompletionUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
 }
 
 interface ChatCompletionResponse {
     choices: Array<{
         message: { content: string };
     }>;
+    usage?: ChatCompletionUsage;
+}
+
+/** One `data:` payload of a streamed completion. */
+interface ChatCompletionChunk {
+    choices?: Array<{
+        delta?: { content?: string };
+        message?: { content?: string }; // some servers send full messages per chunk
+    }>;
+    usage?: ChatCompletionUsage; // only on the last chunk, and only from some servers
+}
+
+function toTokenUsage(usage: ChatCompletionUsage | undefined): Completion["usage"] {
+    if (!usage) return undefined;
+    return { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 };
 }
 
-export class TranslatorClient {
+export interface TranslatorClientOptions {
+    npuExtensions?: boolean;
+}
+
+export class TranslatorClient extends LlmBackend {
     private baseUrl: string;
     private model: string;
     private apiKey?: string;
+    private npuExtensions: boolean;
 
-    constructor(baseUrl: string, model: string, apiKey?: string) {
+    constructor(baseUrl: string, model: string, apiKey?: string, options: TranslatorClientOptions = {}) {
+        super();
         this.baseUrl = baseUrl.replace(/\/$/, "");
         this.model = model;
         this.apiKey = apiKey;
+        this.npuExtensions = options.npuExtensions ?? false;
     }
 
-    async translate(text: string, targetLang: string, sourceLang?: string): Promise<string> {
-        const sourceHint = (sourceLang && sourceLang !== "Auto") ? ` ${sourceLang} ` : " ";
+    async healthCheck(): Promise<void> {
+        await checkReachable(`${this.baseUrl}/v1/models`, this.apiKey);
+    }
+
+    protected async complete(
+        prompt: PromptMessages,
+        sampling: Sampling,
+        signal: AbortSignal | undefined,
+        onContent?: (soFar: string) => void
+    ): Promise<Completion> {
         const request: ChatCompletionRequest = {
             model: this.model,
             messages: [
-                {
-                    role: "system",
-                    content: "You are an expert live chat translator. Translate internet slang and idioms naturally into context."
-                },
-                {
-                    role: "user",
-                    content: `Translate this${sourceHint}message to ${targetLang}. Output strictly JSON: {"translation": "..."}\nMessage: ${text}`,
-                },
+                { role: "system", content: prompt.system },
+                { role: "user", content: prompt.user },
             ],
-            temperature: 0.1,
-            top_p: 0.95,
-            max_completion_tokens: 128,
-            stream: false,
-            ngl: 999,
-            enable_think: false,
-            enable_json: true,
-        };
-
-        const headers: Record<string, string> = {
-            "Content-Type": "application/json",
+            temperature: sampling.temperature,
+            top_p: sampling.topP,
+            max_completion_tokens: sampling.maxTokens,
+            stream: onContent !== undefined,
         };
-        if (this.apiKey) {
-            headers["Authorization"] = `Bearer ${this.apiKey}`;
+        if (this.npuExtensions) {
+            request.ngl = 999;
+            request.enable_think = false;
+            request.enable_json = true;
         }
 
         const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
             method: "POST",
-            headers,
+            headers: jsonHeaders(this.apiKey),
             body: JSON.stringify(request),
+            signal,
         });
 
         if (!response.ok) {
-            throw new Error(`API ${response.status}: ${response.statusText}`);
+            throw new ApiError(response.status, response.statusText);
         }
 
-        const data: ChatCompletionResponse = await response.json();
-        let content = data.choices?.[0]?.message?.content?.trim();
-
-        if (!content) throw new Error("Empty response from API");
-
-        // Try to parse JSON. Sometimes LLMs output markdown codeblocks even when instructed not to.
-        try {
-            // Strip markdown block if present
-            if (content.startsWith("\`\`\`json")) {
-                content = content.replace(/^\`\`\`json\s*/, "").replace(/\s*\`\`\`$/, "");
-            } else if (content.startsWith("\`\`\`")) {
-                content = content.replace(/^\`\`\`\s*/, "").replace(/\s*\`\`\`$/, "");
-            }
-
-            const parsed = JSON.parse(content);
-            if (parsed.translation) {
-                return parsed.translation;
-            }
-        } catch (e) {
-            console.warn("[SOOP Translator] Failed to parse JSON, falling back to raw output:", content);
+        // Servers that ignore `stream` answer with a single JSON body
+        const isEventStream = response.headers.get("Content-Type")?.includes("text/event-stream");
+        let content: string | undefined;
+        let usage: ChatCompletionUsage | undefined;
+        if (onContent && isEventStream && response.body) {
+            let streamed = "";
+            await readEventStream<ChatCompletionChunk>(response.body, (chunk) => {
+                if (chunk.usage) usage = chunk.usage;
+                const choice = chunk.choices?.[0];
+                const delta = choice?.delta?.content ?? choice?.message?.content;
+                if (delta) {
+                    streamed += delta;
+                    onContent(streamed);
+                }
+            });
+            content = streamed.trim();
+        } else {
+            const data: ChatCompletionResponse = await response.json();
+            content = data.choices?.[0]?.message?.content?.trim();
+            usage = data.usage;
         }
 
-        // Fallback: If JSON parsing failed, just return the raw string
-        return content;
+        if (!content) throw new Error("Empty response from API");
+        return { content, usage: toTokenUsage(usage) };
     }
 }
@@ -0,0 +1,32 @@
+/**
+ * Creates the translation backend for the configured provider.
+ */
+
+import type { TranslatorSettings } from "../config/defaults";
+import type { TranslationBackend } from "./backend";
+import { TranslatorClient } from "./client";
+import { LibreTranslateClient } from "./libretranslate";
+import { LlamaCppClient } from "./llamacpp";
+import { OllamaClient } from "./ollama";
+
+export function createBackend(settings: TranslatorSettings): TranslationBackend {
+    switch (settings.provider) {
+        case "ollama":
+            return new OllamaClient(settings.apiBase, settings.model, settings.apiKey, {
+                keepAlive: settings.ollamaKeepAlive,
+            });
+        case "llamacpp":
+            return new LlamaCppClient(settings.apiBase, settings.apiKey, {
+                cachePrompt: settings.llamaCppCachePrompt,
+            });
+        case "libretranslate":
+            return new LibreTranslateClient(settings.apiBase, settings.apiKey);
+        case "openai":
+            return new TranslatorClient(settings.apiBase, settings.model, settings.apiKey);
+        case "npu":
+        default:
+            return new TranslatorClient(settings.apiBase, settings.model, settings.apiKey, {
+                npuExtensions: true,
+            });
+    }
+}
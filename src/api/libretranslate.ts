@@ -0,0 +1,83 @@
+/**
+ * LibreTranslate client (`POST /translate`).
+ * A dedicated MT server rather than an LLM: no prompts, ISO language codes, and
+ * native batching by sending `q` as an array. Streaming and conversation context
+ * are not supported.
+ */
+
+import { getCodeForLangName } from "../config/languages";
+import { ApiError, checkReachable, jsonHeaders, type TranslateOptions, type TranslationBackend } from "./backend";
+import { BatchMismatchError } from "./parser";
+
+interface LibreTranslateRequest {
+    q: string | string[];
+    source: string;
+    target: string;
+    format: "text";
+    api_key?: string;
+}
+
+interface LibreTranslateResponse {
+    translatedText?: string | string[];
+    error?: string;
+}
+
+export class LibreTranslateClient implements TranslationBackend {
+    private baseUrl: string;
+    private apiKey?: string;
+
+    constructor(baseUrl: string, apiKey?: string) {
+        this.baseUrl = baseUrl.replace(/\/$/, "");
+        this.apiKey = apiKey;
+    }
+
+    async healthCheck(): Promise<void> {
+        await checkReachable(`${this.baseUrl}/languages`);
+    }
+
+    async translate(text: string, options: TranslateOptions): Promise<string> {
+        const translated = await this.request(text, options);
+        if (typeof translated !== "string" || !translated.trim()) {
+            throw new Error("Empty response from API");
+        }
+        return translated.trim();
+    }
+
+    async translateBatch(texts: string[], options: TranslateOptions): Promise<string[]> {
+        const translated = await this.request(texts, options);
+        if (!Array.isArray(translated) || translated.length !== texts.length) {
+            throw new BatchMismatchError(`LibreTranslate returned ${Array.isArray(translated) ? translated.length : 0} items, expected ${texts.length}`);
+        }
+        return translated.map((t) => t.trim());
+    }
+
+    private async request(q: string | string[], { targetLang, sourceLang, signal }: TranslateOptions): Promise<string | string[] | undefined> {
+        const target = getCodeForLangName(targetLang);
+        if (!target) throw new Error(`LibreTranslate does not support target language: ${targetLang}`);
+        const source = (sourceLang && sourceLang !== "Auto") ? getCodeForLangName(sourceLang) || "auto" : "auto";
+
+        const request: LibreTranslateRequest = {
+            q,
+            source,
+            target,
+            format: "text",
+        };
+        // LibreTranslate takes the key in the body, not as a bearer token
+        if (this.apiKey) request.api_key = this.apiKey;
+
+        const response = await fetch(`${this.baseUrl}/translate`, {
+            method: "POST",
+            headers: jsonHeaders(),
+            body: JSON.stringify(request),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw new ApiError(response.status, response.statusText);
+        }
+
+        const data: LibreTranslateResponse = await response.json();
+        if (data.error) throw new Error(`LibreTranslate: ${data.error}`);
+        return data.translatedText;
+    }
+}
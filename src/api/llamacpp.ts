@@ -0,0 +1,101 @@
+/**
+ * llama.cpp server client using the raw `POST /completion` endpoint.
+ * There is no chat template on this endpoint, so the system and user prompts are
+ * joined into one plain-text prompt. `cache_prompt` lets the server reuse the
+ * shared system-prompt prefix across requests.
+ */
+
+import { ApiError, LlmBackend, checkReachable, jsonHeaders, type Completion, type PromptMessages, type Sampling } from "./backend";
+import { readEventStream } from "./stream";
+
+interface LlamaCppCompletionRequest {
+    prompt: string;
+    n_predict: number;
+    temperature: number;
+    top_p: number;
+    stream: boolean;
+    cache_prompt: boolean;
+}
+
+interface LlamaCppCompletionResponse {
+    content?: string;
+    stop?: boolean;
+    tokens_evaluated?: number; // token counts, on the final (stop) message
+    tokens_predicted?: number;
+}
+
+function toTokenUsage(response: LlamaCppCompletionResponse): Completion["usage"] {
+    if (response.tokens_evaluated === undefined && response.tokens_predicted === undefined) return undefined;
+    return { promptTokens: response.tokens_evaluated ?? 0, completionTokens: response.tokens_predicted ?? 0 };
+}
+
+export interface LlamaCppClientOptions {
+    cachePrompt?: boolean;
+}
+
+export class LlamaCppClient extends LlmBackend {
+    private baseUrl: string;
+    private apiKey?: string;
+    private cachePrompt: boolean;
+
+    constructor(baseUrl: string, apiKey?: string, options: LlamaCppClientOptions = {}) {
+        super();
+        this.baseUrl = baseUrl.replace(/\/$/, "");
+        this.apiKey = apiKey;
+        this.cachePrompt = options.cachePrompt ?? true;
+    }
+
+    async healthCheck(): Promise<void> {
+        // 503 while the model is still loading, 200 once ready
+        await checkReachable(`${this.baseUrl}/health`, this.apiKey);
+    }
+
+    protected async complete(
+        prompt: PromptMessages,
+        sampling: Sampling,
+        signal: AbortSignal | undefined,
+        onContent?: (soFar: string) => void
+    ): Promise<Completion> {
+        const request: LlamaCppCompletionRequest = {
+            prompt: `${prompt.system}\n\n${prompt.user}\n`,
+            n_predict: sampling.maxTokens,
+            temperature: sampling.temperature,
+            top_p: sampling.topP,
+            stream: onContent !== undefined,
+            cache_prompt: this.cachePrompt,
+        };
+
+        const response = await fetch(`${this.baseUrl}/completion`, {
+            method: "POST",
+            headers: jsonHeaders(this.apiKey),
+            body: JSON.stringify(request),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw new ApiError(response.status, response.statusText);
+        }
+
+        const isEventStream = response.headers.get("Content-Type")?.includes("text/event-stream");
+        let content: string | undefined;
+        let usage: Completion["usage"];
+        if (onContent && isEventStream && response.body) {
+            let streamed = "";
+            await readEventStream<LlamaCppCompletionResponse>(response.body, (chunk) => {
+                if (chunk.stop) usage = toTokenUsage(chunk);
+                if (chunk.content) {
+                    streamed += chunk.content;
+                    onContent(streamed);
+                }
+            });
+            content = streamed.trim();
+        } else {
+            const data: LlamaCppCompletionResponse = await response.json();
+            content = data.content?.trim();
+            usage = toTokenUsage(data);
+        }
+
+        if (!content) throw new Error("Empty response from API");
+        return { content, usage };
+    }
+}
@@ -0,0 +1,40 @@
+/**
+ * Model listing per provider: where the list is and how to read it.
+ * Used by the popup's model suggestions and the options page diagnostics.
+ */
+
+import type { BackendProvider } from "../config/defaults";
+
+/**
+ * URL listing the server's models, or null for providers without a model name
+ * (llama.cpp serves the one model it was started with; LibreTranslate has none).
+ */
+export function modelListUrl(provider: BackendProvider, apiBase: string): string | null {
+    const base = apiBase.replace(/\/$/, "");
+    switch (provider) {
+        case "ollama":
+            return `${base}/api/tags`;
+        case "llamacpp":
+        case "libretranslate":
+            return null;
+        case "npu":
+        case "openai":
+        default:
+            return `${base}/v1/models`;
+    }
+}
+
+/** Model names from a model list response. OpenAI: `{ data: [{ id }] }`, Ollama: `{ models: [{ name }] }`. */
+export function parseModelIds(provider: BackendProvider, data: unknown): string[] {
+    const body = data as { data?: Array<{ id?: unknown }>; models?: Array<{ name?: unknown }> } | null;
+    const ids = provider === "ollama"
+        ? (Array.isArray(body?.models) ? body.models.map((m) => m?.name) : [])
+        : (Array.isArray(body?.data) ? body.data.map((m) => m?.id) : []);
+    return ids.filter((id): id is string => typeof id === "string" && id !== "");
+}
+
+/** Whether `model` is in `ids`; Ollama's implicit ":latest" tag counts as a match. */
+export function hasModel(provider: BackendProvider, ids: string[], model: string): boolean {
+    if (ids.includes(model)) return true;
+    return provider === "ollama" && (ids.includes(`${model}:latest`) || ids.includes(model.replace(/:latest$/, "")));
+}
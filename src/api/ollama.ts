@@ -0,0 +1,116 @@
+/**
+ * Ollama native API client (`POST /api/chat`).
+ * Uses Ollama's `format: "json"` mode and `keep_alive` so the model stays loaded
+ * between chat bursts. Streaming responses are NDJSON rather than SSE.
+ */
+
+import { ApiError, LlmBackend, checkReachable, jsonHeaders, type Completion, type PromptMessages, type Sampling } from "./backend";
+import { readJsonLines } from "./stream";
+
+interface OllamaChatRequest {
+    model: string;
+    messages: Array<{ role: "system" | "user"; content: string }>;
+    stream: boolean;
+    format: "json";
+    keep_alive?: string;
+    options: {
+        temperature: number;
+        top_p: number;
+        num_predict: number;
+    };
+}
+
+interface OllamaChatResponse {
+    message?: { content?: string };
+    done?: boolean;
+    error?: string;
+    prompt_eval_count?: number; // token counts, on the final (done) message
+    eval_count?: number;
+}
+
+function toTokenUsage(response: OllamaChatResponse): Completion["usage"] {
+    if (response.prompt_eval_count === undefined && response.eval_count === undefined) return undefined;
+    return { promptTokens: response.prompt_eval_count ?? 0, completionTokens: response.eval_count ?? 0 };
+}
+
+export interface OllamaClientOptions {
+    keepAlive?: string; // e.g. "5m", "-1" to keep loaded forever
+}
+
+export class OllamaClient extends LlmBackend {
+    private baseUrl: string;
+    private model: string;
+    private apiKey?: string;
+    private keepAlive?: string;
+
+    constructor(baseUrl: string, model: string, apiKey?: string, options: OllamaClientOptions = {}) {
+        super();
+        this.baseUrl = baseUrl.replace(/\/$/, "");
+        this.model = model;
+        this.apiKey = apiKey;
+        this.keepAlive = options.keepAlive || undefined;
+    }
+
+    async healthCheck(): Promise<void> {
+        await checkReachable(`${this.baseUrl}/api/tags`, this.apiKey);
+    }
+
+    protected async complete(
+        prompt: PromptMessages,
+        sampling: Sampling,
+        signal: AbortSignal | undefined,
+        onContent?: (soFar: string) => void
+    ): Promise<Completion> {
+        const request: OllamaChatRequest = {
+            model: this.model,
+            messages: [
+                { role: "system", content: prompt.system },
+                { role: "user", content: prompt.user },
+            ],
+            stream: onContent !== undefined,
+            format: "json",
+            keep_alive: this.keepAlive,
+            options: {
+                temperature: sampling.temperature,
+                top_p: sampling.topP,
+                num_predict: sampling.maxTokens,
+            },
+        };
+
+        const response = await fetch(`${this.baseUrl}/api/chat`, {
+            method: "POST",
+            headers: jsonHeaders(this.apiKey),
+            body: JSON.stringify(request),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw new ApiError(response.status, response.statusText);
+        }
+
+        let content: string | undefined;
+        let usage: Completion["usage"];
+        if (onContent && response.body) {
+            let streamed = "";
+            await readJsonLines<OllamaChatResponse>(response.body, (chunk) => {
+                if (chunk.error) throw new Error(`Ollama: ${chunk.error}`);
+                if (chunk.done) usage = toTokenUsage(chunk);
+                const delta = chunk.message?.content;
+                if (delta) {
+                    streamed += delta;
+                    onContent(streamed);
+                }
+                return chunk.done === true;
+            });
+            content = streamed.trim();
+        } else {
+            const data: OllamaChatResponse = await response.json();
+            if (data.error) throw new Error(`Ollama: ${data.error}`);
+            content = data.message?.content?.trim();
+            usage = toTokenUsage(data);
+        }
+
+        if (!content) throw new Error("Empty response from API");
+        return { content, usage };
+    }
+}
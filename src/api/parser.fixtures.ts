@@ -0,0 +1,176 @@
+/**
+ * Model replies to the built-in single-line prompt, as seen from small local models,
+ * with what `parseTranslation` should make of them. Used by parser.test.ts.
+ */
+
+import type { ParseResult } from "./parser";
+
+export interface OutputFixture {
+    name: string;
+    /** The chat line that was sent. */
+    source: string;
+    sourceLang: string;
+    targetLang: string;
+    /** Raw completion text. */
+    content: string;
+    expected: ParseResult;
+}
+
+const JA_KO = { sourceLang: "Japanese", targetLang: "Korean" };
+const KO_EN = { sourceLang: "Korean", targetLang: "English" };
+
+export const OUTPUT_FIXTURES: OutputFixture[] = [
+    // Well-formed and recoverable replies
+    {
+        name: "plain JSON object",
+        source: "配信お疲れ様です!", ...JA_KO,
+        content: '{"translation": "방송 수고하셨습니다!"}',
+        expected: { ok: true, translation: "방송 수고하셨습니다!" },
+    },
+    {
+        name: "extra keys next to the translation",
+        source: "草", ...JA_KO,
+        content: '{"translation": "ㅋㅋㅋ", "notes": "internet slang for laughing", "confidence": 0.9}',
+        expected: { ok: true, translation: "ㅋㅋㅋ" },
+    },
+    {
+        name: "alternative key name",
+        source: "ありがとう", ...JA_KO,
+        content: '{"translated_text": "고마워"}',
+        expected: { ok: true, translation: "고마워" },
+    },
+    {
+        name: "JSON in a markdown fence",
+        source: "かわいい", ...JA_KO,
+        content: '```json\n{"translation": "귀여워"}\n```',
+        expected: { ok: true, translation: "귀여워" },
+    },
+    {
+        name: "closed <think> block before the JSON",
+        source: "おはよう", ...JA_KO,
+        content: '<think>\nThe user greets in the morning. Casual tone.\n</think>\n{"translation": "좋은 아침"}',
+        expected: { ok: true, translation: "좋은 아침" },
+    },
+    {
+        name: "quoted string only",
+        source: "すごい", ...JA_KO,
+        content: '"대박"',
+        expected: { ok: true, translation: "대박" },
+    },
+    {
+        name: "preamble before the JSON object",
+        source: "また明日", ...JA_KO,
+        content: 'Sure! Here is the translation: {"translation": "내일 봐"}',
+        expected: { ok: true, translation: "내일 봐" },
+    },
+    {
+        name: "plain text with a label",
+        source: "おやすみ", ...JA_KO,
+        content: "Translation: 잘 자",
+        expected: { ok: true, translation: "잘 자" },
+    },
+    {
+        name: "JSON followed by an explanation",
+        source: "ナイス", ...JA_KO,
+        content: '{"translation": "나이스"}\n\nThis is a casual compliment.',
+        expected: { ok: true, translation: "나이스" },
+    },
+    {
+        name: "reading next to the translation",
+        source: "配信お疲れ様", ...JA_KO,
+        content: '{"translation": "방송 수고했어", "reading": "はいしんおつかれさま"}',
+        expected: { ok: true, translation: "방송 수고했어", reading: "はいしんおつかれさま" },
+    },
+
+    // Truncated by the token limit
+    {
+        name: "JSON cut off mid-string",
+        source: "今日の配信めっちゃ楽しかった、また来週も見に来ます", ...JA_KO,
+        content: '{"translation": "오늘 방송 진짜 재밌었어, 다음 주에도',
+        expected: { ok: false, reason: "truncated" },
+    },
+    {
+        name: "JSON cut off before the value",
+        source: "いいね", ...JA_KO,
+        content: '{"translation": ',
+        expected: { ok: false, reason: "truncated" },
+    },
+    {
+        name: "quoted string cut off",
+        source: "がんばって", ...JA_KO,
+        content: '"힘내',
+        expected: { ok: false, reason: "truncated" },
+    },
+    {
+        name: "<think> block never closed",
+        source: "それな", ...JA_KO,
+        content: "<think>\nThe phrase それな is slang meaning agreement. In Korean this could be",
+        expected: { ok: false, reason: "truncated" },
+    },
+
+    // Unusable
+    {
+        name: "empty reply",
+        source: "うん", ...JA_KO,
+        content: "   ",
+        expected: { ok: false, reason: "empty" },
+    },
+    {
+        name: "only a <think> block",
+        source: "うん", ...JA_KO,
+        content: "<think>Nothing to translate.</think>",
+        expected: { ok: false, reason: "empty" },
+    },
+    {
+        name: "object without a translation key",
+        source: "はい", ...JA_KO,
+        content: '{"answer": 1}',
+        expected: { ok: false, reason: "malformed" },
+    },
+
+    // Prompt echoes
+    {
+        name: "echo of the instruction with the JSON template",
+        source: "こんにちは", ...JA_KO,
+        content: 'Translate this message from Japanese to Korean. Output strictly JSON: {"translation": "..."}',
+        expected: { ok: false, reason: "leak" },
+    },
+    {
+        name: "echo of the system prompt as the translation",
+        source: "こんにちは", ...JA_KO,
+        content: '{"translation": "You are an expert live chat translator. Translate internet slang"}',
+        expected: { ok: false, reason: "leak" },
+    },
+    {
+        name: "echoed JSON instruction before a usable object",
+        source: "こんにちは", ...JA_KO,
+        content: 'Output strictly JSON: {"translation": "안녕하세요"}',
+        expected: { ok: true, translation: "안녕하세요" },
+    },
+
+    // Chat that talks about translating is still a translation
+    {
+        name: "translation that starts with \"translate this\"",
+        source: "이거 번역해 줘", ...KO_EN,
+        content: '{"translation": "Translate this for me"}',
+        expected: { ok: true, translation: "Translate this for me" },
+    },
+    {
+        name: "translation containing \"message:\"",
+        source: "새 메시지: 방송 10분 뒤 시작", ...KO_EN,
+        content: '{"translation": "New message: stream starts in 10 minutes"}',
+        expected: { ok: true, translation: "New message: stream starts in 10 minutes" },
+    },
+    {
+        name: "translation mentioning JSON output",
+        source: "출력은 JSON으로만 해 주세요", ...KO_EN,
+        content: '{"translation": "Please output JSON only"}',
+        expected: { ok: true, translation: "Please output JSON only" },
+    },
+    {
+        name: "chat line that quotes the prompt, translated back",
+        source: "Output strictly JSON: 이게 뭐야", ...KO_EN,
+        content: '{"translation": "Output strictly JSON: what is this"}',
+        expected: { ok: true, translation: "Output strictly JSON: what is this" },
+    },
+];
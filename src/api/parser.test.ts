@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { OUTPUT_FIXTURES } from "./parser.fixtures";
+import { BatchMismatchError, parseBatch, parseTranslation } from "./parser";
+import { batchPrompt, singlePrompt, systemPrompt } from "./prompt";
+
+describe("parseTranslation", () => {
+    it.each(OUTPUT_FIXTURES)("$name", ({ source, sourceLang, targetLang, content, expected }) => {
+        const options = { sourceLang, targetLang };
+        const prompt = `${systemPrompt(options)}\n${singlePrompt(source, options)}`;
+        const result = parseTranslation(content, source, prompt);
+        expect(result).toEqual(expected.ok ? { reading: undefined, ...expected } : expected);
+    });
+});
+
+describe("parseBatch", () => {
+    const options = { sourceLang: "Japanese", targetLang: "Korean" };
+    const sources = ["おはよう", "配信お疲れ様"];
+    const prompt = `${systemPrompt(options)}\n${batchPrompt(sources, options)}`;
+
+    it("matches items by id", () => {
+        const content = '{"translations": [{"id": 2, "translation": "방송 수고했어"}, {"id": 1, "translation": "좋은 아침"}]}';
+        expect(parseBatch(content, sources, prompt)).toEqual(["좋은 아침", "방송 수고했어"]);
+    });
+
+    it("accepts bare strings positionally", () => {
+        expect(parseBatch('["좋은 아침", "방송 수고했어"]', sources, prompt)).toEqual(["좋은 아침", "방송 수고했어"]);
+    });
+
+    it("passes readings on by input index", () => {
+        const content = '{"translations": [{"id": 1, "translation": "좋은 아침", "reading": "おはよう"},' +
+            ' {"id": 2, "translation": "방송 수고했어", "reading": "はいしんおつかれさま"}]}';
+        const readings: Array<[number, string]> = [];
+        parseBatch(content, sources, prompt, (index, reading) => readings.push([index, reading]));
+        expect(readings).toEqual([[0, "おはよう"], [1, "はいしんおつかれさま"]]);
+    });
+
+    it.each([
+        ["a missing item", '{"translations": [{"id": 1, "translation": "좋은 아침"}]}'],
+        ["a duplicate id", '{"translations": [{"id": 1, "translation": "좋은 아침"}, {"id": 1, "translation": "수고"}]}'],
+        ["an empty translation", '{"translations": [{"id": 1, "translation": "좋은 아침"}, {"id": 2, "translation": ""}]}'],
+        ["no array", '{"translation": "좋은 아침"}'],
+        ["the input array echoed back", '[{"id": 1, "text": "おはよう"}, {"id": 2, "text": "配信お疲れ様"}]'],
+        ["output cut off", '{"translations": [{"id": 1, "translation": "좋은'],
+        ["an echoed instruction", '{"translations": [{"id": 1, "translation": "좋은 아침"}, ' +
+            '{"id": 2, "translation": "Keep every id and translate each message on its own."}]}'],
+    ])("rejects %s", (_, content) => {
+        expect(() => parseBatch(content, sources, prompt)).toThrow(BatchMismatchError);
+    });
+
+    it("keeps translations that only mention translating", () => {
+        const content = '{"translations": [{"id": 1, "translation": "Translate this for me"}, {"id": 2, "translation": "New message: hi"}]}';
+        expect(parseBatch(content, sources, prompt)).toEqual(["Translate this for me", "New message: hi"]);
+    });
+});
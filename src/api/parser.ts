@@ -0,0 +1,262 @@
+/**
+ * Parsing of raw model output into translations.
+ *
+ * Small local models rarely follow "Output strictly JSON" perfectly. Seen in practice:
+ * markdown fences, `<think>` blocks, JSON cut off by the token limit, a bare quoted
+ * string, extra keys, alternative key names, and echoes of the prompt itself.
+ * `parseTranslation` normalises the recoverable cases and reports the rest as
+ * unusable so the caller can retry instead of showing garbage in chat.
+ * Echoes are recognised against the prompt actually sent, so chat that merely talks
+ * about translating ("translate this for me") is not mistaken for one.
+ */
+
+/**
+ * Thrown by `translateBatch` when the model's array does not line up with the input
+ * (wrong length, missing ids, non-string entries). Callers split the batch and retry.
+ */
+export class BatchMismatchError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "BatchMismatchError";
+    }
+}
+
+/** Why an output could not be used. `truncated` means a bigger token budget may help. */
+export type ParseFailure = "empty" | "truncated" | "leak" | "malformed";
+
+/** A usable reply; `reading` only when the prompt asked for one and the model gave it. */
+export interface ParsedTranslation {
+    ok: true;
+    translation: string;
+    reading?: string;
+}
+
+export type ParseResult =
+    | ParsedTranslation
+    | { ok: false; reason: ParseFailure };
+
+// Keys models use instead of "translation", in order of preference.
+const TRANSLATION_KEYS = ["translation", "translated", "translated_text", "output", "result", "text"];
+// Batch input items carry the source line as "text" (see batchPrompt); an echoed input must not match.
+const BATCH_ITEM_KEYS = TRANSLATION_KEYS.filter((key) => key !== "text");
+
+// Prompt sentences shorter than this are too generic to tell an echo from a translation.
+const MIN_ECHO_LENGTH = 20;
+// Only the start of each sentence is compared, so echoes cut off mid-sentence still count.
+const ECHO_PROBE_LENGTH = 40;
+
+/** Removes `<think>…</think>` blocks. An unclosed block swallows the rest of the output. */
+export function stripThinking(content: string): string {
+    return content
+        .replace(/<think>[\s\S]*?<\/think>/gi, "")
+        .replace(/<think>[\s\S]*$/i, "")
+        .trim();
+}
+
+/** Strips a markdown code fence around (or inside) the output. */
+function stripCodeFence(content: string): string {
+    const fenced = /\`\`\`(?:json)?\s*([\s\S]*?)(?:\`\`\`|$)/i.exec(content);
+    return fenced ? fenced[1].trim() : content;
+}
+
+/** Thinking tags and code fences removed — what is left should be the answer. */
+export function cleanOutput(content: string): string {
+    return stripCodeFence(stripThinking(content));
+}
+
+/**
+ * Lower-cased openings of the prompt's sentences, with the chat lines being translated
+ * removed. A reply containing one repeats the instructions instead of translating.
+ * Sentences the chat lines themselves contain are left out.
+ */
+export function echoProbes(prompt: string, sources: string[]): string[] {
+    const lowerSources = sources.map((source) => source.toLowerCase());
+    const probes = new Set<string>();
+    for (let sentence of prompt.split(/\n|(?<=[.!?])\s+/)) {
+        for (const source of sources) {
+            if (source) sentence = sentence.split(source).join("");
+        }
+        const probe = sentence.trim().toLowerCase().slice(0, ECHO_PROBE_LENGTH);
+        if (probe.length < MIN_ECHO_LENGTH) continue;
+        if (lowerSources.some((source) => source.includes(probe))) continue;
+        probes.add(probe);
+    }
+    return Array.from(probes);
+}
+
+function echoesPrompt(output: string, probes: string[]): boolean {
+    const lower = output.toLowerCase();
+    return probes.some((probe) => lower.includes(probe));
+}
+
+/** Reads a JSON string literal starting just after its opening quote. */
+function readJsonString(body: string, start: number): { value: string; closed: boolean } {
+    let value = "";
+    for (let i = start; i < body.length; i++) {
+        const ch = body[i];
+        if (ch === '"') return { value, closed: true };
+        if (ch !== "\\") {
+            value += ch;
+            continue;
+        }
+        const next = body[i + 1];
+        if (next === undefined) break; // escape cut off
+        if (next === "u") {
+            const hex = body.slice(i + 2, i + 6);
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+            continue;
+        }
+        value += ({ n: "\n", t: "\t", r: "", b: "", f: "" } as Record<string, string>)[next] ?? next;
+        i++;
+    }
+    return { value, closed: false };
+}
+
+/** Finds the value of the first known translation key in a (possibly broken) JSON object. */
+function scanTranslationKey(body: string): { value: string; closed: boolean } | null {
+    for (const key of TRANSLATION_KEYS) {
+        const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(body);
+        if (match) return readJsonString(body, match.index + match[0].length);
+    }
+    return null;
+}
+
+function pickTranslation(parsed: unknown, keys = TRANSLATION_KEYS): string | undefined {
+    if (typeof parsed === "string") return parsed;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return undefined;
+    const record = parsed as Record<string, unknown>;
+    for (const key of keys) {
+        if (typeof record[key] === "string") return record[key] as string;
+    }
+    return undefined;
+}
+
+/** The hiragana reading asked for with `readings` (see prompt.ts), if the reply has one. */
+function scanReading(body: string): string | undefined {
+    const match = /"reading"\s*:\s*"/.exec(body);
+    if (!match) return undefined;
+    const scanned = readJsonString(body, match.index + match[0].length);
+    return scanned.closed ? scanned.value.trim() || undefined : undefined;
+}
+
+/** Strips a leading "Translation:"-style label from plain-text replies. */
+function stripLabel(text: string): string {
+    return text.replace(/^(?:translation|translated|번역)\s*[:：]\s*/i, "").trim();
+}
+
+/**
+ * Parses one model reply to a single-line prompt.
+ * @param source the original chat line
+ * @param prompt the system and user prompt as sent, used to detect echoes
+ */
+export function parseTranslation(content: string, source: string, prompt: string): ParseResult {
+    const hadUnclosedThink = /<think>(?![\s\S]*<\/think>)/i.test(content);
+    const body = cleanOutput(content);
+    if (!body) return { ok: false, reason: hadUnclosedThink ? "truncated" : "empty" };
+
+    let translation: string | undefined;
+
+    if (body.startsWith("{") || body.startsWith('"')) {
+        try {
+            translation = pickTranslation(JSON.parse(body));
+        } catch (e) {
+            // Not valid JSON as a whole: extra text after the object, or cut off mid-string
+        }
+        if (translation === undefined && body.startsWith("{")) {
+            const scanned = scanTranslationKey(body);
+            if (!scanned) return { ok: false, reason: body.includes("}") ? "malformed" : "truncated" };
+            if (!scanned.closed) return { ok: false, reason: "truncated" };
+            translation = scanned.value;
+        }
+        if (translation === undefined && body.startsWith('"')) {
+            const scanned = readJsonString(body, 1);
+            if (!scanned.closed) return { ok: false, reason: "truncated" };
+            translation = scanned.value;
+        }
+    } else {
+        // JSON object somewhere after a preamble ("Sure! Here it is: {...}")
+        const objectStart = body.indexOf("{");
+        const scanned = objectStart !== -1 ? scanTranslationKey(body.slice(objectStart)) : null;
+        translation = scanned?.closed ? scanned.value : stripLabel(body);
+    }
+
+    translation = translation?.trim();
+    if (!translation) return { ok: false, reason: "empty" };
+    // The whole reply, so an echo before the JSON object counts too
+    if (echoesPrompt(body, echoProbes(prompt, [source]))) return { ok: false, reason: "leak" };
+
+    return { ok: true, translation, reading: scanReading(body) };
+}
+
+/**
+ * Matches a batch response back to its input by id. Readings are passed to
+ * `onReading` by input index once the whole response has matched.
+ * @param sources the chat lines sent, in order
+ * @param prompt the system and user prompt as sent, used to detect echoes
+ * @throws BatchMismatchError if the response array cannot be matched to the input
+ */
+export function parseBatch(
+    content: string,
+    sources: string[],
+    prompt: string,
+    onReading?: (index: number, reading: string) => void
+): string[] {
+    const count = sources.length;
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(cleanOutput(content));
+    } catch (e) {
+        throw new BatchMismatchError("Batch response is not valid JSON");
+    }
+
+    const items = Array.isArray(parsed)
+        ? parsed
+        : (parsed as { translations?: unknown })?.translations;
+    if (!Array.isArray(items)) {
+        throw new BatchMismatchError("Batch response has no translations array");
+    }
+    if (items.length !== count) {
+        throw new BatchMismatchError(`Batch response has ${items.length} items, expected ${count}`);
+    }
+
+    const results = new Array<string | undefined>(count);
+    const readings = new Map<number, string>();
+    items.forEach((item, i) => {
+        // Accept bare strings positionally; objects must carry a valid id.
+        if (typeof item === "string") {
+            results[i] = item.trim();
+            return;
+        }
+        const id = Number(item?.id);
+        const translation = pickTranslation(item, BATCH_ITEM_KEYS);
+        if (Number.isInteger(id) && id >= 1 && id <= count && translation !== undefined) {
+            results[id - 1] = translation.trim();
+            if (typeof item.reading === "string" && item.reading.trim()) readings.set(id - 1, item.reading.trim());
+        }
+    });
+
+    const probes = echoProbes(prompt, sources);
+    const missing = results.findIndex((r) => r === undefined || r === "" || echoesPrompt(r, probes));
+    if (missing !== -1) {
+        throw new BatchMismatchError(`Batch response is missing or unusable for id ${missing + 1}`);
+    }
+    if (onReading) readings.forEach((reading, index) => onReading(index, reading));
+    return results as string[];
+}
+
+/**
+ * Pulls the translation decoded so far out of an incomplete `{"translation": "...` buffer.
+ * Returns null while there is nothing displayable yet.
+ */
+export function extractPartialTranslation(content: string): string | null {
+    // Nothing to show while the model is still thinking
+    if (/<think>(?![\s\S]*<\/think>)/i.test(content)) return null;
+    const body = stripThinking(content).replace(/^\`\`\`(?:json)?\s*/, "");
+    if (body.startsWith("\`")) return null;
+    // Model ignored the JSON instruction — show the raw text as it grows
+    if (!body.startsWith("{")) return body || null;
+
+    return scanTranslationKey(body)?.value || null;
+}
@@ -0,0 +1,132 @@
+/**
+ * Prompts shared by every LLM-based translation backend.
+ * Backends only differ in transport; what we ask the model lives here and how we
+ * read its answer lives in parser.ts. The wording comes from the request's prompt
+ * preset (src/config/prompts.ts); this module fills in its placeholders.
+ */
+
+import type { CorrectionExample } from "../config/corrections";
+import { DEFAULT_CONTEXT_TOKEN_BUDGET } from "../config/defaults";
+import { isProtected, type GlossaryEntry } from "../config/glossary";
+import { BUILTIN_PROMPT_PRESET, isPlaceholder, type Placeholder, type PromptPreset } from "../config/prompts";
+import type { ContextLine } from "../shared/messages";
+import type { TranslateOptions } from "./backend";
+
+// Upper bound on a batch's completion budget, however many lines it has.
+export const MAX_BATCH_TOKENS = 2048;
+
+/**
+ * Rough token estimate for budget checks. CJK text is close to one token per
+ * character, Latin text closer to four characters per token; this splits the difference.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 2);
+}
+
+function formatContextLine(line: ContextLine): string {
+    const who = line.user ? `${line.user}: ` : "";
+    const translated = line.translation ? ` (= ${line.translation})` : "";
+    return `- ${who}${line.text}${translated}`;
+}
+
+/**
+ * Renders recent chat as a context block, newest lines kept first when over budget.
+ * Returns "" when there is no context to send.
+ */
+function contextBlock(context: ContextLine[] | undefined, budget = DEFAULT_CONTEXT_TOKEN_BUDGET): string {
+    if (!context || context.length === 0 || budget <= 0) return "";
+
+    const lines: string[] = [];
+    let used = 0;
+    for (let i = context.length - 1; i >= 0; i--) {
+        const line = formatContextLine(context[i]);
+        used += estimateTokens(line);
+        if (used > budget) break;
+        lines.unshift(line);
+    }
+    if (lines.length === 0) return "";
+
+    return `Recent chat for context only. Do NOT translate or output these lines:\n${lines.join("\n")}\n\n`;
+}
+
+/** Renders matched glossary entries as prompt instructions; "" when there are none. */
+function glossaryBlock(glossary: GlossaryEntry[] | undefined): string {
+    if (!glossary || glossary.length === 0) return "";
+
+    const forced = glossary.filter((e) => !isProtected(e));
+    const kept = glossary.filter(isProtected);
+    let block = "";
+    if (forced.length > 0) {
+        block += `Always translate these terms exactly as given:\n${forced.map((e) => `- ${e.term} → ${e.translation}`).join("\n")}\n`;
+    }
+    if (kept.length > 0) {
+        block += `Keep these terms exactly as written (no translation or transliteration): ${kept.map((e) => e.term).join(", ")}\n`;
+    }
+    return block + "\n";
+}
+
+/** Renders the user's corrections of similar lines as examples; "" when there are none. */
+function examplesBlock(examples: CorrectionExample[] | undefined): string {
+    if (!examples || examples.length === 0) return "";
+    const lines = examples.map((e) => `- ${e.text} → ${e.translation}`);
+    return `The user corrected these translations earlier; follow their wording and style:\n${lines.join("\n")}\n\n`;
+}
+
+// Appended on the retry after an unusable reply.
+const STRICT_SUFFIX = "\nReply with ONLY the JSON object. No explanations, no thinking, no repeating these instructions.";
+
+// Appended when `readings` is set; presets only describe the translation itself.
+const READING_SUFFIX = "\nAlso add a \"reading\" key with the whole message written in hiragana (kanji replaced by their reading).";
+const BATCH_READING_SUFFIX = "\nAlso give every item a \"reading\" key with its message written in hiragana (kanji replaced by their reading).";
+
+/** The request's prompt preset, or the built-in one. */
+export function presetOf(options: TranslateOptions): PromptPreset {
+    return options.prompt ?? BUILTIN_PROMPT_PRESET;
+}
+
+/**
+ * Replaces `{{name}}` placeholders. Unknown names are left as written; presets are
+ * validated before they are saved.
+ */
+function render(template: string, values: Partial<Record<Placeholder, string>>): string {
+    return template.replace(/\{\{\s*([^{}]*?)\s*\}\}/g, (match, name: string) =>
+        isPlaceholder(name) ? values[name] ?? "" : match
+    );
+}
+
+/** Values shared by the single-line and batch templates. */
+function sharedValues(options: TranslateOptions): Partial<Record<Placeholder, string>> {
+    const { sourceLang, targetLang } = options;
+    return {
+        source: sourceLang && sourceLang !== "Auto" ? sourceLang : "the original language",
+        target: targetLang,
+        context: contextBlock(options.context, options.contextTokenBudget),
+        glossary: glossaryBlock(options.glossary),
+        examples: examplesBlock(options.examples),
+    };
+}
+
+export function systemPrompt(options: TranslateOptions): string {
+    return render(presetOf(options).system, sharedValues(options));
+}
+
+export function singlePrompt(text: string, options: TranslateOptions, strict = false): string {
+    return render(presetOf(options).single, { ...sharedValues(options), message: text }) +
+        (options.readings ? READING_SUFFIX : "") +
+        (strict ? STRICT_SUFFIX : "");
+}
+
+export function batchPrompt(texts: string[], options: TranslateOptions): string {
+    const numbered = texts.map((text, i) => ({ id: i + 1, text }));
+    return render(presetOf(options).batch, { ...sharedValues(options), messages: JSON.stringify(numbered) }) +
+        (options.readings ? BATCH_READING_SUFFIX : "");
+}
+
+/** Completion budget for a single chat line; a reading about doubles the output. */
+export function messageMaxTokens(options: TranslateOptions): number {
+    return presetOf(options).maxTokens * (options.readings ? 2 : 1);
+}
+
+export function batchMaxTokens(count: number, options: TranslateOptions): number {
+    return Math.min(messageMaxTokens(options) * count, MAX_BATCH_TOKENS);
+}
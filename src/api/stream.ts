@@ -0,0 +1,75 @@
+/**
+ * Line readers for streamed HTTP responses.
+ * OpenAI-compatible servers and llama.cpp send SSE (`data: {...}`); Ollama sends NDJSON.
+ */
+
+/**
+ * Calls `onLine` for each complete line of the body. Returning true from `onLine`
+ * stops reading early (e.g. on an SSE `[DONE]` marker).
+ */
+export async function readLines(
+    body: ReadableStream<Uint8Array>,
+    onLine: (line: string) => boolean | void
+): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            buffer += decoder.decode(value, { stream: !done });
+
+            const lines = buffer.split(/\r?\n/);
+            buffer = done ? "" : lines.pop() ?? "";
+            for (const line of lines) {
+                if (onLine(line)) return;
+            }
+            if (done) return;
+        }
+    } finally {
+        reader.cancel().catch(() => { /* already closed */ });
+    }
+}
+
+/**
+ * Calls `onData` with every parsed SSE `data:` payload until `[DONE]` or end of stream.
+ * Malformed payloads are logged and skipped.
+ */
+export async function readEventStream<T>(
+    body: ReadableStream<Uint8Array>,
+    onData: (data: T) => void
+): Promise<void> {
+    await readLines(body, (line) => {
+        if (!line.startsWith("data:")) return false; // comments, event names, blank separators
+        const payload = line.slice(5).trim();
+        if (payload === "[DONE]") return true;
+        let data: T;
+        try {
+            data = JSON.parse(payload);
+        } catch (e) {
+            console.warn("[SOOP Translator] Ignoring malformed stream chunk:", payload);
+            return false;
+        }
+        onData(data);
+        return false;
+    });
+}
+
+/** Calls `onData` with every parsed line of an NDJSON stream. */
+export async function readJsonLines<T>(
+    body: ReadableStream<Uint8Array>,
+    onData: (data: T) => boolean | void
+): Promise<void> {
+    await readLines(body, (line) => {
+        if (!line.trim()) return false;
+        let data: T;
+        try {
+            data = JSON.parse(line);
+        } catch (e) {
+            console.warn("[SOOP Translator] Ignoring malformed stream chunk:", line);
+            return false;
+        }
+        return onData(data);
+    });
+}
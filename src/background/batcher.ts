@@ -0,0 +1,316 @@
+/**
+ * Batches translation requests that arrive close together into a single completion.
+ *
+ * During chat bursts the content scripts send many TRANSLATE messages within a few
+ * milliseconds. Instead of one API call per line, pending lines are collected for a short
+ * window and sent as one numbered array. Only lines from the same tab are batched, so
+ * every batch has its own chat as context. In-flight batches from all tabs share one
+ * adaptive limit (see limiter.ts) capped by `maxConcurrentRequests`; lines from the
+ * focused or a visible tab are sent before those from background tabs.
+ * Streamed lines (`onPartial` given) always run alone but share the same concurrency limit.
+ * When an endpoint fails, the unfinished lines move on to the next healthy endpoint.
+ * Each attempt is aborted after `requestTimeoutSeconds`; a line whose `signal` aborts is
+ * rejected right away, and the request itself is aborted once every line in it is cancelled.
+ */
+
+import type { TranslateOptions, TranslationBackend } from "../api/backend";
+import { createBackend } from "../api/factory";
+import { BatchMismatchError } from "../api/parser";
+import type { CorrectionExample } from "../config/corrections";
+import type { EndpointConfig, TranslatorSettings } from "../config/defaults";
+import type { GlossaryEntry } from "../config/glossary";
+import type { PromptPreset } from "../config/prompts";
+import type { ContextLine } from "../shared/messages";
+import { endpointsFor, isEndpointFailure, type EndpointHealthTracker } from "./health";
+import { ConcurrencyLimiter, isOverload } from "./limiter";
+import type { MetricsRecorder } from "./metrics";
+
+// How long to wait for more lines before sending a batch.
+const BATCH_WINDOW_MS = 40;
+
+interface PendingItem {
+    text: string;
+    settings: TranslatorSettings;
+    context?: ContextLine[];
+    glossary?: GlossaryEntry[];
+    examples?: CorrectionExample[];
+    prompt?: PromptPreset;
+    onPartial?: (partial: string) => void;
+    readings?: boolean; // also ask for the line's hiragana reading
+    onReading?: (reading: string) => void;
+    signal?: AbortSignal; // aborted when the content script no longer needs the line
+    priority: number; // higher is sent first; see TAB_PRIORITY in index.ts
+    tabId?: number; // the tab the line came from; each tab has its own chat and context
+    resolve: (result: string) => void;
+    reject: (err: Error) => void;
+    settled: boolean; // resolved or rejected; skipped when failing over
+}
+
+/**
+ * Lines can only share a request when they come from the same tab and go to the same
+ * endpoint with the same languages and prompt, and either all or none of them ask for
+ * readings. Lines from different tabs would otherwise share one tab's chat as context.
+ */
+function batchKey(item: PendingItem): string {
+    const { settings } = item;
+    return [
+        item.tabId ?? "", settings.provider, settings.apiBase, settings.model, settings.apiKey, settings.sourceLang, settings.targetLang,
+        item.prompt?.id ?? "", item.readings ? "readings" : "",
+    ].join("\u0000");
+}
+
+/**
+ * Prompt options for a batch. Batched lines are consecutive chat from one tab, so the context
+ * preceding the first line covers the whole batch. Glossary entries and examples are merged.
+ */
+function translateOptions(items: PendingItem[]): TranslateOptions {
+    const first = items[0];
+    const glossary = new Map<string, GlossaryEntry>();
+    for (const item of items) {
+        for (const entry of item.glossary ?? []) glossary.set(entry.term, entry);
+    }
+    const examples = new Map<string, CorrectionExample>();
+    for (const item of items) {
+        for (const example of item.examples ?? []) examples.set(example.text, example);
+    }
+    return {
+        targetLang: first.settings.targetLang,
+        sourceLang: first.settings.sourceLang,
+        context: first.context,
+        contextTokenBudget: first.settings.contextTokenBudget,
+        glossary: Array.from(glossary.values()),
+        examples: Array.from(examples.values()),
+        prompt: first.prompt,
+        readings: first.readings,
+    };
+}
+
+function toError(err: unknown): Error {
+    return err instanceof Error ? err : new Error("Unknown error");
+}
+
+export class TranslationBatcher {
+    private pending: PendingItem[] = [];
+    private inFlight = 0;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private health: EndpointHealthTracker;
+    private metrics: MetricsRecorder;
+    private limiter = new ConcurrencyLimiter();
+
+    constructor(health: EndpointHealthTracker, metrics: MetricsRecorder) {
+        this.health = health;
+        this.metrics = metrics;
+    }
+
+    enqueue(
+        text: string,
+        settings: TranslatorSettings,
+        extras: Partial<Pick<PendingItem, "context" | "glossary" | "examples" | "prompt" | "onPartial" | "readings" | "onReading" | "signal" | "priority" | "tabId">> = {}
+    ): Promise<string> {
+        return new Promise((resolve, reject) => {
+            if (extras.signal?.aborted) {
+                reject(toError(extras.signal.reason));
+                return;
+            }
+            const item: PendingItem = {
+                text,
+                settings,
+                priority: 0,
+                ...extras,
+                settled: false,
+                resolve: (result) => {
+                    item.settled = true;
+                    resolve(result);
+                },
+                reject: (err) => {
+                    item.settled = true;
+                    reject(err);
+                },
+            };
+            extras.signal?.addEventListener("abort", () => this.cancel(item), { once: true });
+            this.pending.push(item);
+            this.schedule();
+        });
+    }
+
+    /** Rejects a cancelled line; one still waiting is removed so it is never sent. */
+    private cancel(item: PendingItem) {
+        if (item.settled) return;
+        this.pending = this.pending.filter((p) => p !== item);
+        item.reject(toError(item.signal?.reason));
+    }
+
+    private schedule() {
+        if (this.timer !== null) return;
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.flush();
+        }, BATCH_WINDOW_MS);
+    }
+
+    private flush() {
+        while (this.pending.length > 0) {
+            const head = this.byPriority()[0];
+            const maxConcurrent = Math.max(1, head.settings.maxConcurrentRequests);
+            const capacity = this.limiter.capacity(maxConcurrent);
+            this.metrics.recordConcurrency(capacity, maxConcurrent);
+            if (this.inFlight >= capacity) return; // resumed when a batch finishes
+
+            const batch = this.takeBatch(head);
+            this.inFlight++;
+            this.run(batch).finally(() => {
+                this.inFlight--;
+                this.flush();
+            });
+        }
+    }
+
+    /** Pending items, highest priority first and oldest first within a priority. */
+    private byPriority(): PendingItem[] {
+        return [...this.pending].sort((a, b) => b.priority - a.priority); // sort is stable
+    }
+
+    /** Removes up to `batchSize` pending items that share the head item's batch key, by priority. */
+    private takeBatch(head: PendingItem): PendingItem[] {
+        if (head.onPartial) {
+            this.pending = this.pending.filter((item) => item !== head);
+            return [head];
+        }
+        const key = batchKey(head);
+        const maxSize = Math.max(1, head.settings.batchSize);
+        const batch: PendingItem[] = [];
+        for (const item of this.byPriority()) {
+            if (batch.length < maxSize && !item.onPartial && batchKey(item) === key) {
+                batch.push(item);
+            }
+        }
+        this.pending = this.pending.filter((item) => !batch.includes(item));
+        return batch;
+    }
+
+    /**
+     * Sends the batch to the first healthy endpoint. Endpoint failures (network, HTTP
+     * status, timeout) are recorded and the lines not yet finished move to the next one.
+     */
+    private async run(batch: PendingItem[]) {
+        const { settings } = batch[0];
+        let lastError: Error = new Error("All translation endpoints are unavailable");
+
+        for (const endpoint of this.health.candidates(endpointsFor(settings))) {
+            const remaining = batch.filter((item) => !item.settled);
+            if (remaining.length === 0) return;
+
+            const endpointSettings: TranslatorSettings = { ...settings, ...endpoint };
+            const client = createBackend(endpointSettings);
+            console.log(`[SOOP Translator] Sending API request to: ${endpoint.apiBase} (${endpoint.provider}) | Model: ${endpoint.model} | Source: ${settings.sourceLang} -> Target: ${settings.targetLang} | Batch: ${remaining.length}`);
+
+            const attempt = this.startAttempt(remaining, settings.requestTimeoutSeconds);
+            const startedAt = Date.now();
+            try {
+                await this.translateItems(client, remaining, attempt.signal);
+                this.health.recordSuccess(endpoint);
+                this.limiter.recordSuccess(startedAt, (Date.now() - startedAt) / remaining.length, settings.maxConcurrentRequests);
+                return;
+            } catch (err) {
+                lastError = toError(err);
+                if (isOverload(err)) this.limiter.recordOverload(startedAt);
+                if (!isEndpointFailure(err)) break;
+                this.recordEndpointFailure(endpoint, err, client);
+            } finally {
+                attempt.done();
+            }
+        }
+
+        for (const item of batch) {
+            if (!item.settled) item.reject(lastError);
+        }
+    }
+
+    /**
+     * Abort signal for one attempt at `items`: fires with a "TimeoutError" after
+     * `timeoutSeconds`, or with an "AbortError" once every item has been cancelled.
+     * `done` must be called when the attempt ends.
+     */
+    private startAttempt(items: PendingItem[], timeoutSeconds: number): { signal: AbortSignal; done: () => void } {
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            controller.abort(new DOMException(`Request timed out after ${timeoutSeconds}s`, "TimeoutError"));
+        }, Math.max(1, timeoutSeconds) * 1000);
+
+        // Registered after the item's own cancel listener, so the item is already settled here
+        const onCancel = () => {
+            if (items.every((item) => item.settled)) {
+                controller.abort(new DOMException("All lines in the request were cancelled", "AbortError"));
+            }
+        };
+        for (const item of items) item.signal?.addEventListener("abort", onCancel);
+
+        return {
+            signal: controller.signal,
+            done: () => {
+                clearTimeout(timer);
+                for (const item of items) item.signal?.removeEventListener("abort", onCancel);
+            },
+        };
+    }
+
+    private recordEndpointFailure(endpoint: EndpointConfig, err: unknown, client: TranslationBackend) {
+        console.warn(`[SOOP Translator] Endpoint ${endpoint.apiBase} failed:`, toError(err).message);
+        this.health.recordFailure(endpoint, err, client);
+    }
+
+    /**
+     * Translates the items as one batch. If the model's array does not match the input,
+     * the batch is split in half and each half retried, down to single-line calls.
+     * Backends without batch support translate the lines one by one.
+     */
+    private async translateItems(client: TranslationBackend, items: PendingItem[], signal: AbortSignal): Promise<void> {
+        const options: TranslateOptions = {
+            ...translateOptions(items),
+            signal,
+            onUsage: (usage) => this.metrics.recordUsage(usage),
+            onReading: (index, reading) => items[index]?.onReading?.(reading),
+        };
+
+        if (items.length === 1) {
+            const [item] = items;
+            const result = (item.onPartial && client.translateStream)
+                ? await client.translateStream(item.text, options, item.onPartial)
+                : await client.translate(item.text, options);
+            item.resolve(result);
+            return;
+        }
+
+        if (!client.translateBatch) {
+            for (const item of items) {
+                await this.settle(client, [item], signal);
+            }
+            return;
+        }
+
+        try {
+            const results = await client.translateBatch(items.map((item) => item.text), options);
+            items.forEach((item, i) => item.resolve(results[i]));
+        } catch (err) {
+            if (!(err instanceof BatchMismatchError)) throw err;
+
+            console.warn(`[SOOP Translator] ${err.message}; splitting batch of ${items.length}`);
+            const mid = Math.ceil(items.length / 2);
+            await this.settle(client, items.slice(0, mid), signal);
+            await this.settle(client, items.slice(mid), signal);
+        }
+    }
+
+    /**
+     * Runs part of a batch, rejecting only those items on failure.
+     * Endpoint failures propagate so `run` can fail over.
+     */
+    private async settle(client: TranslationBackend, items: PendingItem[], signal: AbortSignal) {
+        try {
+            await this.translateItems(client, items, signal);
+        } catch (err) {
+            if (isEndpointFailure(err)) throw err;
+            for (const item of items) item.reject(toError(err));
+        }
+    }
+}
@@ -0,0 +1,60 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TranslationCache, type CacheKey } from "./cache";
+
+const TTL_MS = 60 * 60 * 1000;
+
+function key(text: string): CacheKey {
+    return { sourceLang: "ja", targetLang: "ko", model: "openai:test-model", variant: "", text };
+}
+
+/** What a fresh worker would sum up from the stored entries. */
+async function storedBytes(): Promise<number> {
+    return (await new TranslationCache().stats()).bytes;
+}
+
+describe("TranslationCache", () => {
+    beforeEach(() => {
+        globalThis.indexedDB = new IDBFactory();
+        vi.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    it("returns what was stored", async () => {
+        const cache = new TranslationCache();
+        await cache.set(key("おはよう"), { result: "좋은 아침", skipped: false, detectedLang: "ja" }, 1_000_000);
+        expect(await cache.get(key("おはよう"), TTL_MS)).toEqual({
+            result: "좋은 아침", skipped: false, detectedLang: "ja", reading: undefined,
+        });
+        expect(await cache.get(key("こんばんは"), TTL_MS)).toBeUndefined();
+    });
+
+    it("counts every entry of writes that overlap", async () => {
+        const cache = new TranslationCache();
+        await Promise.all(Array.from({ length: 20 }, (_, i) =>
+            cache.set(key(`配信お疲れ様 ${i}`), { result: `방송 수고했어 ${i}`, skipped: false }, 1_000_000)));
+
+        const stats = await cache.stats();
+        expect(stats.entries).toBe(20);
+        expect(stats.bytes).toBe(await storedBytes());
+    });
+
+    it("evicts when overlapping writes go over the budget", async () => {
+        const cache = new TranslationCache();
+        const maxBytes = 1000;
+        await Promise.all(Array.from({ length: 20 }, (_, i) =>
+            cache.set(key(`配信お疲れ様 ${i}`), { result: `방송 수고했어 ${i}`, skipped: false }, maxBytes)));
+
+        const stats = await cache.stats();
+        expect(stats.entries).toBeLessThan(20);
+        expect(stats.bytes).toBeLessThanOrEqual(maxBytes);
+        expect(stats.bytes).toBe(await storedBytes());
+    });
+
+    it("replaces an entry without counting it twice", async () => {
+        const cache = new TranslationCache();
+        await cache.set(key("草"), { result: "ㅋㅋ", skipped: false }, 1_000_000);
+        await cache.set(key("草"), { result: "ㅋㅋㅋ", skipped: false }, 1_000_000);
+        expect(await cache.stats()).toMatchObject({ entries: 1, bytes: await storedBytes() });
+    });
+});
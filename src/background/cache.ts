@@ -0,0 +1,253 @@
+/**
+ * Persistent translation cache backed by IndexedDB.
+ *
+ * The MV3 service worker is suspended constantly, which wiped the old in-memory Map.
+ * Entries here survive restarts, expire after a TTL, and are evicted least-recently-used
+ * first once the total size exceeds a byte budget.
+ *
+ * Entries are keyed on [sourceLang, targetLang, model, variant, text] so changing the
+ * language pair, model or the glossary entries that apply never returns a result
+ * produced under other settings.
+ */
+
+import type { CacheStats } from "../shared/messages";
+import { promisify, transactionDone } from "./idb";
+
+const DB_NAME = "soop-translator";
+const DB_VERSION = 1;
+const ENTRY_STORE = "translations";
+const META_STORE = "meta";
+const STATS_KEY = "stats";
+
+// Evict down to this fraction of the budget so we don't evict on every write.
+const EVICT_TARGET_RATIO = 0.9;
+// Hit/miss counters are flushed to IndexedDB at most this often.
+const STATS_FLUSH_MS = 2000;
+// Only rewrite `accessedAt` on a hit if it is older than this — keeps reads cheap.
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export interface CacheKey {
+    sourceLang: string;
+    targetLang: string;
+    model: string; // `${provider}:${model}`
+    variant: string; // fingerprint of other prompt inputs that change the result (e.g. glossary)
+    text: string;
+}
+
+export interface CachedTranslation {
+    result: string;
+    skipped: boolean; // text was already in the target language
+    detectedLang?: string; // ISO code of the source text, see detect.ts
+    reading?: string; // hiragana reading of Japanese with kanji, when asked for
+}
+
+interface CacheEntry extends CacheKey, CachedTranslation {
+    size: number; // approximate bytes
+    createdAt: number;
+    accessedAt: number;
+}
+
+function keyOf(key: CacheKey): IDBValidKey {
+    return [key.sourceLang, key.targetLang, key.model, key.variant, key.text];
+}
+
+function entrySize(key: CacheKey, value: CachedTranslation): number {
+    // UTF-16 code units × 2, plus a rough per-record overhead
+    const valueLength = value.result.length + (value.reading?.length ?? 0);
+    return (key.text.length + valueLength + key.model.length + key.variant.length) * 2 + 64;
+}
+
+export class TranslationCache {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    private totalBytes: number | null = null; // lazily summed once per worker lifetime
+    private totalLoaded: Promise<number> | null = null;
+    private hits = 0;
+    private misses = 0;
+    private statsLoaded: Promise<void> | null = null;
+    private statsTimer: ReturnType<typeof setTimeout> | null = null;
+
+    async get(key: CacheKey, ttlMs: number): Promise<CachedTranslation | undefined> {
+        await this.loadStats();
+        const db = await this.open();
+        const tx = db.transaction(ENTRY_STORE, "readwrite");
+        const store = tx.objectStore(ENTRY_STORE);
+        const entry: CacheEntry | undefined = await promisify(store.get(keyOf(key)));
+        const now = Date.now();
+
+        let found: CachedTranslation | undefined;
+        if (entry && now - entry.createdAt > ttlMs) {
+            store.delete(keyOf(key));
+            if (this.totalBytes !== null) this.totalBytes -= entry.size;
+        } else if (entry) {
+            if (now - entry.accessedAt > TOUCH_INTERVAL_MS) {
+                entry.accessedAt = now;
+                store.put(entry);
+            }
+            found = { result: entry.result, skipped: entry.skipped, detectedLang: entry.detectedLang, reading: entry.reading };
+        }
+        await transactionDone(tx);
+
+        if (found) this.hits++;
+        else this.misses++;
+        this.scheduleStatsFlush();
+        return found;
+    }
+
+    async set(key: CacheKey, value: CachedTranslation, maxBytes: number): Promise<void> {
+        const db = await this.open();
+        await this.getTotalBytes(db);
+        const now = Date.now();
+        const entry: CacheEntry = {
+            ...key,
+            ...value,
+            size: entrySize(key, value),
+            createdAt: now,
+            accessedAt: now,
+        };
+
+        const tx = db.transaction(ENTRY_STORE, "readwrite");
+        const store = tx.objectStore(ENTRY_STORE);
+        const previous: CacheEntry | undefined = await promisify(store.get(keyOf(key)));
+        store.put(entry);
+        await transactionDone(tx);
+
+        // Adjusted in place: a batch resolves many lines at once and their writes overlap
+        this.totalBytes = (this.totalBytes ?? 0) + entry.size - (previous?.size ?? 0);
+        if (this.totalBytes > maxBytes) {
+            await this.evict(db, maxBytes * EVICT_TARGET_RATIO);
+        }
+    }
+
+    async delete(key: CacheKey): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(ENTRY_STORE, "readwrite");
+        const store = tx.objectStore(ENTRY_STORE);
+        const previous: CacheEntry | undefined = await promisify(store.get(keyOf(key)));
+        if (previous) store.delete(keyOf(key));
+        await transactionDone(tx);
+
+        if (previous && this.totalBytes !== null) this.totalBytes -= previous.size;
+    }
+
+    async stats(): Promise<CacheStats> {
+        await this.loadStats();
+        const db = await this.open();
+        const tx = db.transaction(ENTRY_STORE, "readonly");
+        const entries = await promisify(tx.objectStore(ENTRY_STORE).count());
+        return {
+            entries,
+            bytes: await this.getTotalBytes(db),
+            hits: this.hits,
+            misses: this.misses,
+        };
+    }
+
+    async clear(): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction([ENTRY_STORE, META_STORE], "readwrite");
+        tx.objectStore(ENTRY_STORE).clear();
+        tx.objectStore(META_STORE).delete(STATS_KEY);
+        await transactionDone(tx);
+
+        this.totalBytes = 0;
+        this.hits = 0;
+        this.misses = 0;
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    const store = db.createObjectStore(ENTRY_STORE, {
+                        keyPath: ["sourceLang", "targetLang", "model", "variant", "text"],
+                    });
+                    store.createIndex("accessedAt", "accessedAt");
+                    db.createObjectStore(META_STORE);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.dbPromise = null; // allow a retry on the next call
+                    reject(request.error);
+                };
+            });
+        }
+        return this.dbPromise;
+    }
+
+    private getTotalBytes(db: IDBDatabase): Promise<number> {
+        if (this.totalBytes !== null) return Promise.resolve(this.totalBytes);
+        // One scan shared by concurrent callers, so a late scan cannot overwrite their updates
+        this.totalLoaded ??= this.sumEntrySizes(db).finally(() => {
+            this.totalLoaded = null;
+        });
+        return this.totalLoaded;
+    }
+
+    private async sumEntrySizes(db: IDBDatabase): Promise<number> {
+        let total = 0;
+        const tx = db.transaction(ENTRY_STORE, "readonly");
+        await new Promise<void>((resolve, reject) => {
+            const request = tx.objectStore(ENTRY_STORE).openCursor();
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) return resolve();
+                total += (cursor.value as CacheEntry).size;
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        });
+        this.totalBytes = total;
+        return total;
+    }
+
+    /** Deletes least-recently-used entries until the total is at or below `targetBytes`. */
+    private async evict(db: IDBDatabase, targetBytes: number): Promise<void> {
+        let evicted = 0;
+        const tx = db.transaction(ENTRY_STORE, "readwrite");
+        const request = tx.objectStore(ENTRY_STORE).index("accessedAt").openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor || (this.totalBytes ?? 0) <= targetBytes) return;
+            this.totalBytes = (this.totalBytes ?? 0) - (cursor.value as CacheEntry).size;
+            evicted++;
+            cursor.delete();
+            cursor.continue();
+        };
+        await transactionDone(tx);
+
+        console.log(`[SOOP Translator] Cache evicted ${evicted} entries (${this.totalBytes} bytes left)`);
+    }
+
+    private loadStats(): Promise<void> {
+        if (!this.statsLoaded) {
+            this.statsLoaded = (async () => {
+                const db = await this.open();
+                const tx = db.transaction(META_STORE, "readonly");
+                const saved: { hits: number; misses: number } | undefined =
+                    await promisify(tx.objectStore(META_STORE).get(STATS_KEY));
+                this.hits += saved?.hits ?? 0;
+                this.misses += saved?.misses ?? 0;
+            })().catch((err) => {
+                console.warn("[SOOP Translator] Failed to load cache stats:", err);
+            });
+        }
+        return this.statsLoaded;
+    }
+
+    private scheduleStatsFlush() {
+        if (this.statsTimer !== null) return;
+        this.statsTimer = setTimeout(async () => {
+            this.statsTimer = null;
+            try {
+                const db = await this.open();
+                const tx = db.transaction(META_STORE, "readwrite");
+                tx.objectStore(META_STORE).put({ hits: this.hits, misses: this.misses }, STATS_KEY);
+                await transactionDone(tx);
+            } catch (err) {
+                console.warn("[SOOP Translator] Failed to save cache stats:", err);
+            }
+        }, STATS_FLUSH_MS);
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * Local language detection for chat lines.
+ *
+ * Chrome's detector (chrome.i18n.detectLanguage) is unreliable on short lines and on
+ * Korean-English mixes, so the writing system decides first: letters are counted per
+ * script (Hangul, kana, Han, Latin, ...) and the detector is only asked about text in
+ * a script shared by several languages, such as Latin.
+ *
+ * The result includes the share of letters that are *not* in the target language,
+ * which the background compares against `minForeignRatio` to skip lines that need
+ * no translation.
+ */
+
+import { LANGUAGES, type LanguageScript } from "../config/languages";
+
+type ScriptClass = "hangul" | "kana" | "han" | "latin" | "cyrillic" | "thai" | "other";
+
+export interface LanguageDetection {
+    language: string; // ISO 639-1 code of the line's main language; "" when unknown
+    foreignRatio: number; // share of letters (0–1) not written in the target language
+}
+
+const SCRIPT_PATTERNS: Array<[Exclude<ScriptClass, "other">, RegExp]> = [
+    ["hangul", /\p{Script=Hangul}/u],
+    ["kana", /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+    ["han", /\p{Script=Han}/u],
+    ["latin", /\p{Script=Latin}/u],
+    ["cyrillic", /\p{Script=Cyrillic}/u],
+    ["thai", /\p{Script=Thai}/u],
+];
+const LETTER_RE = /\p{L}/u;
+
+/** Script classes written by a language with this script. */
+const TARGET_CLASSES: Record<LanguageScript, ScriptClass[]> = {
+    hangul: ["hangul"],
+    japanese: ["kana", "han"],
+    han: ["han"],
+    latin: ["latin"],
+    cyrillic: ["cyrillic"],
+    thai: ["thai"],
+};
+
+// A line with at least this share of kana is Japanese even if kanji dominate
+const KANA_MIN_SHARE = 0.1;
+
+function countScripts(text: string): { counts: Map<ScriptClass, number>; letters: number } {
+    const counts = new Map<ScriptClass, number>();
+    let letters = 0;
+    for (const char of text) {
+        if (!LETTER_RE.test(char)) continue;
+        letters++;
+        const script = SCRIPT_PATTERNS.find(([, re]) => re.test(char))?.[0] ?? "other";
+        counts.set(script, (counts.get(script) ?? 0) + 1);
+    }
+    return { counts, letters };
+}
+
+/** Chrome's guess for `text`, or "" unless it is reliable. */
+async function chromeDetect(text: string): Promise<string> {
+    const detected = await new Promise<chrome.i18n.LanguageDetectionResult>((resolve) => {
+        chrome.i18n.detectLanguage(text, resolve);
+    });
+    if (!detected?.isReliable || detected.languages.length === 0) return "";
+    return detected.languages[0].language.split("-")[0]; // "zh-Hant" → "zh"
+}
+
+/** Main language of a line from its dominant script; asks Chrome only when the script is ambiguous. */
+async function mainLanguage(text: string, counts: Map<ScriptClass, number>, letters: number): Promise<string> {
+    if ((counts.get("kana") ?? 0) / letters >= KANA_MIN_SHARE) return "ja";
+
+    let dominant: ScriptClass = "other";
+    for (const [script, count] of counts) {
+        if (count > (counts.get(dominant) ?? 0)) dominant = script;
+    }
+    switch (dominant) {
+        case "hangul": return "ko";
+        case "kana": return "ja";
+        case "han": return (await chromeDetect(text)) || "zh"; // kanji-only Japanese is rare in chat
+        case "thai": return "th";
+        default: return chromeDetect(text);
+    }
+}
+
+/** Whether languages other than `code` are written with `script` too (Latin, Han). */
+function isSharedScript(script: ScriptClass, code: string): boolean {
+    return LANGUAGES.some((lang) => lang.code !== code && TARGET_CLASSES[lang.script].includes(script));
+}
+
+/**
+ * Whether `text` is Japanese with kanji, whose reading the writing does not show:
+ * kanji next to kana, or any kanji when the source language is set to Japanese.
+ */
+export function needsReading(text: string, sourceCode: string): boolean {
+    const { counts } = countScripts(text);
+    if (!counts.get("han")) return false;
+    return (counts.get("kana") ?? 0) > 0 || sourceCode === "ja";
+}
+
+/**
+ * Detects the main language of `text` and how much of it is foreign to `targetCode`.
+ * Letters in a script several languages share (e.g. Latin for an English target, Han
+ * for a Japanese one) only count as the target language when the line's main
+ * language is the target.
+ * Lines without letters (numbers, emoji) have a foreign ratio of 0.
+ * An unknown target code counts everything as foreign.
+ */
+export async function detectLanguage(text: string, targetCode: string): Promise<LanguageDetection> {
+    const { counts, letters } = countScripts(text);
+    if (letters === 0) return { language: "", foreignRatio: 0 };
+
+    const language = await mainLanguage(text, counts, letters);
+    const target = LANGUAGES.find((lang) => lang.code === targetCode);
+    if (!target) return { language, foreignRatio: 1 };
+
+    let inTarget = 0;
+    for (const script of TARGET_CLASSES[target.script]) {
+        // Same letters, different language (e.g. Spanish for an English target)
+        if (language !== target.code && isSharedScript(script, target.code)) continue;
+        inTarget += counts.get(script) ?? 0;
+    }
+    return { language, foreignRatio: 1 - inTarget / letters };
+}
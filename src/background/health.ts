@@ -0,0 +1,165 @@
+/**
+ * Endpoint health tracking with a per-endpoint circuit breaker.
+ *
+ * The primary endpoint (top-level settings) is tried first, then each fallback in
+ * order. After FAILURE_THRESHOLD consecutive failures an endpoint's circuit opens and
+ * it is skipped; a background probe (`healthCheck`) re-checks it with backoff. A
+ * successful probe half-opens the circuit so the next real request can close it.
+ */
+
+import { ApiError, type TranslationBackend } from "../api/backend";
+import type { EndpointConfig, TranslatorSettings } from "../config/defaults";
+import type { EndpointStatus } from "../shared/messages";
+
+const FAILURE_THRESHOLD = 3;
+const PROBE_DELAY_MS = 15 * 1000;
+const MAX_PROBE_DELAY_MS = 2 * 60 * 1000;
+
+type CircuitState = EndpointStatus["state"];
+
+interface EndpointHealth {
+    state: CircuitState;
+    consecutiveFailures: number;
+    totalFailures: number;
+    totalSuccesses: number;
+    lastError?: string;
+    probeDelay: number;
+    probeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export function endpointKey(endpoint: EndpointConfig): string {
+    return [endpoint.provider, endpoint.apiBase.replace(/\/$/, ""), endpoint.model].join("|");
+}
+
+/** Primary endpoint followed by the configured fallbacks, duplicates removed. */
+export function endpointsFor(settings: TranslatorSettings): EndpointConfig[] {
+    const primary: EndpointConfig = {
+        provider: settings.provider,
+        apiBase: settings.apiBase,
+        model: settings.model,
+        apiKey: settings.apiKey,
+    };
+    const seen = new Set<string>();
+    return [primary, ...(settings.fallbackEndpoints ?? [])].filter((endpoint) => {
+        if (!endpoint.apiBase) return false;
+        const key = endpointKey(endpoint);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * Whether an error says something about the endpoint (unreachable, overloaded, bad
+ * status, timed out) rather than about this particular request's output.
+ */
+export function isEndpointFailure(err: unknown): boolean {
+    if (err instanceof ApiError) return true;
+    if (!(err instanceof Error)) return false;
+    // fetch() network failures are TypeErrors; timeouts abort with a "TimeoutError".
+    // A plain "AbortError" means the line was cancelled, which says nothing about the endpoint.
+    return err.name === "TypeError" || err.name === "TimeoutError";
+}
+
+export class EndpointHealthTracker {
+    private health = new Map<string, EndpointHealth>();
+
+    /** Endpoints worth trying, in priority order. Open circuits are skipped. */
+    candidates(endpoints: EndpointConfig[]): EndpointConfig[] {
+        return endpoints.filter((endpoint) => this.get(endpoint).state !== "open");
+    }
+
+    recordSuccess(endpoint: EndpointConfig) {
+        const health = this.get(endpoint);
+        health.totalSuccesses++;
+        health.consecutiveFailures = 0;
+        if (health.state !== "closed") {
+            console.log(`[SOOP Translator] Endpoint recovered: ${endpoint.apiBase}`);
+        }
+        this.close(health);
+    }
+
+    /**
+     * Counts a failure. Opens the circuit after repeated failures, or immediately
+     * when a half-open endpoint fails its trial request.
+     */
+    recordFailure(endpoint: EndpointConfig, err: unknown, backend: TranslationBackend) {
+        const health = this.get(endpoint);
+        health.totalFailures++;
+        health.consecutiveFailures++;
+        health.lastError = err instanceof Error ? err.message : String(err);
+
+        if (health.state === "half-open" || health.consecutiveFailures >= FAILURE_THRESHOLD) {
+            this.open(endpoint, health, backend);
+        }
+    }
+
+    /** Status of each endpoint for the popup. The active endpoint is the first one not open. */
+    snapshot(endpoints: EndpointConfig[]): EndpointStatus[] {
+        const activeKey = this.candidates(endpoints).map(endpointKey)[0];
+        return endpoints.map((endpoint) => {
+            const health = this.get(endpoint);
+            return {
+                apiBase: endpoint.apiBase,
+                provider: endpoint.provider,
+                model: endpoint.model,
+                state: health.state,
+                active: endpointKey(endpoint) === activeKey,
+                consecutiveFailures: health.consecutiveFailures,
+                totalFailures: health.totalFailures,
+                totalSuccesses: health.totalSuccesses,
+                lastError: health.lastError,
+            };
+        });
+    }
+
+    private get(endpoint: EndpointConfig): EndpointHealth {
+        const key = endpointKey(endpoint);
+        let health = this.health.get(key);
+        if (!health) {
+            health = {
+                state: "closed",
+                consecutiveFailures: 0,
+                totalFailures: 0,
+                totalSuccesses: 0,
+                probeDelay: PROBE_DELAY_MS,
+                probeTimer: null,
+            };
+            this.health.set(key, health);
+        }
+        return health;
+    }
+
+    private close(health: EndpointHealth) {
+        health.state = "closed";
+        health.probeDelay = PROBE_DELAY_MS;
+        if (health.probeTimer !== null) {
+            clearTimeout(health.probeTimer);
+            health.probeTimer = null;
+        }
+    }
+
+    private open(endpoint: EndpointConfig, health: EndpointHealth, backend: TranslationBackend) {
+        if (health.state !== "open") {
+            console.warn(`[SOOP Translator] Circuit opened for ${endpoint.apiBase}: ${health.lastError}`);
+        }
+        health.state = "open";
+        this.scheduleProbe(endpoint, health, backend);
+    }
+
+    private scheduleProbe(endpoint: EndpointConfig, health: EndpointHealth, backend: TranslationBackend) {
+        if (health.probeTimer !== null) return;
+        health.probeTimer = setTimeout(async () => {
+            health.probeTimer = null;
+            try {
+                await backend.healthCheck();
+                health.state = "half-open";
+                console.log(`[SOOP Translator] Probe succeeded, half-opening ${endpoint.apiBase}`);
+            } catch (err) {
+                health.lastError = err instanceof Error ? err.message : String(err);
+                health.probeDelay = Math.min(health.probeDelay * 2, MAX_PROBE_DELAY_MS);
+                this.scheduleProbe(endpoint, health, backend);
+            }
+        }, health.probeDelay);
+    }
+}
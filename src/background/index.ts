@@ -1,50 +1,134 @@
 /**
  * Background service worker.
  * Relays translation requests from content scripts to the local NPU API.
- * Includes an in-memory LRU-style cache to avoid re-translating identical messages.
+ * Lines arriving close together are batched into one completion (see batcher.ts).
+ * With streaming enabled, partial translations are pushed back over a long-lived port.
+ * Content scripts cancel lines they no longer need (removed or dropped from their queue).
+ * Results are cached in IndexedDB (see cache.ts) so identical messages are not re-translated,
+ * even after the worker is suspended.
+ * Latency, throughput and errors are recorded for the popup (see metrics.ts).
+ * When recording is on, chat transcripts are stored per broadcast (see transcripts.ts).
+ * User corrections replace cached translations and guide the model on similar lines.
+ * Settings can be overridden per channel (streamer ID sent with each request).
+ * Non-secret settings can follow the user across browsers through chrome.storage.sync (see sync.ts).
  */
 
-import { TranslatorClient } from "../api/client";
+import { createBackend } from "../api/factory";
+import { CHANNEL_OVERRIDES_STORAGE_KEY, loadChannelOverrides, resolveChannelSettings, type ChannelOverrides } from "../config/channels";
+import {
+    CORRECTIONS_STORAGE_KEY,
+    findCorrection,
+    loadCorrections,
+    matchExamples,
+    removeCorrection,
+    saveCorrections,
+    upsertCorrection,
+    type Correction,
+} from "../config/corrections";
 import { DEFAULT_SETTINGS, type TranslatorSettings } from "../config/defaults";
+import {
+    GLOBAL_SCOPE,
+    GLOSSARY_STORAGE_KEY,
+    applyGlossary,
+    glossaryFingerprint,
+    loadGlossary,
+    matchGlossary,
+    saveGlossary,
+    type GlossaryEntry,
+} from "../config/glossary";
+import { getCodeForLangName } from "../config/languages";
+import { loadProfiles } from "../config/profiles";
+import { SETTINGS_SYNC_STORAGE_KEY } from "../config/sync";
+import {
+    PROMPT_PRESETS_STORAGE_KEY,
+    loadPromptPresets,
+    presetFingerprint,
+    resolvePreset,
+    type PromptPreset,
+} from "../config/prompts";
+import type {
+    BackgroundRequest,
+    CacheStatsResponse,
+    CorrectionDeleteRequest,
+    CorrectionRequest,
+    CorrectionResponse,
+    EndpointStatusResponse,
+    MetricsResponse,
+    PromptTestRequest,
+    PromptTestResponse,
+    StreamPortMessage,
+    StreamPortName,
+    StreamPortRequest,
+    TabVisibility,
+    ToggleComposeCommand,
+    TranslateRecentCommand,
+    TranslateRequest,
+    TranslateResponse,
+    TranscriptResponse,
+} from "../shared/messages";
+import { TranslationBatcher } from "./batcher";
+import { TranslationCache, type CacheKey, type CachedTranslation } from "./cache";
+import { detectLanguage, needsReading } from "./detect";
+import { EndpointHealthTracker, endpointsFor } from "./health";
+import { MetricsRecorder } from "./metrics";
+import { SettingsSync } from "./sync";
+import { TranscriptStore } from "./transcripts";
 
-interface TranslateRequest {
-    type: "TRANSLATE";
-    text: string;
+const STREAM_PORT_NAME: StreamPortName = "soop-translate-stream";
+
+// --- Translation cache ---
+// Cache failures are logged and treated as misses; they never block a translation.
+const translationCache = new TranslationCache();
+
+/** Whether to ask the model for the line's hiragana reading along with the translation. */
+function wantsReading(settings: TranslatorSettings, text: string): boolean {
+    return settings.kanjiReadings && needsReading(text, getCodeForLangName(settings.sourceLang));
 }
 
-interface TranslateResponse {
-    success: boolean;
-    result?: string;
-    error?: string;
-    cached?: boolean;
-    skipped?: boolean;
+function cacheKeyFor(settings: TranslatorSettings, text: string, glossary: GlossaryEntry[], prompt: PromptPreset): CacheKey {
+    const reading = wantsReading(settings, text) ? "reading" : "";
+    return {
+        sourceLang: settings.sourceLang,
+        targetLang: settings.targetLang,
+        model: `${settings.provider}:${settings.model}`,
+        variant: [glossaryFingerprint(glossary), presetFingerprint(prompt), reading].filter(Boolean).join("#"),
+        text,
+    };
 }
 
-// --- Translation cache ---
-// Key: `${targetLang}::${text}`, Value: translated string
-// Caps at MAX_CACHE_SIZE entries; oldest entries evicted first.
-const MAX_CACHE_SIZE = 500;
-const translationCache = new Map<string, string>();
-
-function cacheGet(key: string): string | undefined {
-    const val = translationCache.get(key);
-    if (val !== undefined) {
-        // Touch: move to end (most-recently-used)
-        translationCache.delete(key);
-        translationCache.set(key, val);
+async function cacheGet(settings: TranslatorSettings, key: CacheKey): Promise<CachedTranslation | undefined> {
+    try {
+        return await translationCache.get(key, settings.cacheTtlHours * 60 * 60 * 1000);
+    } catch (err) {
+        console.warn("[SOOP Translator] Cache read failed:", err);
+        return undefined;
+    }
+}
+
+async function cacheSet(settings: TranslatorSettings, key: CacheKey, value: CachedTranslation) {
+    try {
+        await translationCache.set(key, value, settings.cacheMaxMB * 1024 * 1024);
+    } catch (err) {
+        console.warn("[SOOP Translator] Cache write failed:", err);
     }
-    return val;
 }
 
-function cacheSet(key: string, value: string) {
-    if (translationCache.size >= MAX_CACHE_SIZE) {
-        // Evict oldest (first) entry
-        const firstKey = translationCache.keys().next().value;
-        if (firstKey !== undefined) translationCache.delete(firstKey);
+async function cacheDelete(key: CacheKey) {
+    try {
+        await translationCache.delete(key);
+    } catch (err) {
+        console.warn("[SOOP Translator] Cache delete failed:", err);
     }
-    translationCache.set(key, value);
 }
 
+const endpointHealth = new EndpointHealthTracker();
+const metrics = new MetricsRecorder();
+const batcher = new TranslationBatcher(endpointHealth, metrics);
+
+// --- Transcripts ---
+// Failures are logged; recording never affects translation.
+const transcripts = new TranscriptStore();
+
 // --- Settings helper ---
 async function getSettings(): Promise<TranslatorSettings> {
     return new Promise((resolve) => {
@@ -54,86 +138,420 @@ async function getSettings(): Promise<TranslatorSettings> {
     });
 }
 
-// --- Language Mapping ---
-// Maps user-friendly settings targetLang to ISO language codes returned by Chrome i18n
-function getCodeForLangName(langName: string): string {
-    switch (langName) {
-        case "Korean": return "ko";
-        case "English": return "en";
-        case "Japanese": return "ja";
-        case "Chinese (Simplified)": return "zh";
-        case "Spanish": return "es";
-        case "French": return "fr";
-        default: return "";
+// --- Channel overrides ---
+let channelOverridesPromise: Promise<ChannelOverrides> | null = null;
+
+/** Settings in effect on `streamerId`'s channel; the global settings without one. */
+async function getChannelSettings(streamerId: string | undefined): Promise<TranslatorSettings> {
+    if (!channelOverridesPromise) channelOverridesPromise = loadChannelOverrides();
+    return resolveChannelSettings(await getSettings(), await channelOverridesPromise, streamerId);
+}
+
+// --- Upgrade migration ---
+// Older versions stored a single flat settings object; loading profiles converts it.
+chrome.runtime.onInstalled.addListener(() => {
+    loadProfiles().catch((err) => console.error("[SOOP Translator] Profile migration failed:", err));
+});
+
+// --- Settings sync ---
+// Off unless switched on in the popup; failures are logged and local settings stay as they are.
+const settingsSync = new SettingsSync();
+
+chrome.storage.onChanged.addListener((changes, area) => {
+    const run = (work: Promise<void>) => work.catch((err) => console.error("[SOOP Translator] Settings sync failed:", err));
+    if (area === "sync") {
+        run(settingsSync.pull(changes));
+    } else if (area === "local" && changes[SETTINGS_SYNC_STORAGE_KEY]?.newValue === true) {
+        run(settingsSync.join());
+    } else if (area === "local") {
+        run(settingsSync.push(changes));
     }
+});
+
+// --- Glossary ---
+// Loaded once and kept until the popup edits it.
+let glossaryPromise: Promise<GlossaryEntry[]> | null = null;
+
+function getGlossary(): Promise<GlossaryEntry[]> {
+    if (!glossaryPromise) glossaryPromise = loadGlossary();
+    return glossaryPromise;
+}
+
+// --- Prompt presets ---
+let promptPresetsPromise: Promise<PromptPreset[]> | null = null;
+
+/** The prompt preset for the settings' language pair and model. */
+async function getPromptPreset(settings: TranslatorSettings): Promise<PromptPreset> {
+    if (!promptPresetsPromise) promptPresetsPromise = loadPromptPresets();
+    return resolvePreset(await promptPresetsPromise, settings);
+}
+
+chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === "local" && changes[GLOSSARY_STORAGE_KEY]) glossaryPromise = null;
+    if (area === "local" && changes[CORRECTIONS_STORAGE_KEY]) correctionsPromise = null;
+    if (area === "local" && changes[PROMPT_PRESETS_STORAGE_KEY]) promptPresetsPromise = null;
+    if (area === "local" && changes[CHANNEL_OVERRIDES_STORAGE_KEY]) channelOverridesPromise = null;
+});
+
+// --- Corrections ---
+// Only written here, so the cache can follow every change.
+let correctionsPromise: Promise<Correction[]> | null = null;
+
+function getCorrections(): Promise<Correction[]> {
+    if (!correctionsPromise) correctionsPromise = loadCorrections();
+    return correctionsPromise;
+}
+
+/** Cache key of `text` on `streamerId`'s channel under that channel's settings. */
+async function currentCacheKey(settings: TranslatorSettings, text: string, streamerId?: string): Promise<CacheKey> {
+    return cacheKeyFor(settings, text, matchGlossary(await getGlossary(), [text], streamerId), await getPromptPreset(settings));
+}
+
+/**
+ * Stores a correction or "wrong" report. A correction replaces the cached translation
+ * (and may become a glossary entry); a report drops it, so the line is translated again.
+ */
+async function handleCorrection(request: CorrectionRequest): Promise<CorrectionResponse> {
+    try {
+        const settings = await getChannelSettings(request.streamerId);
+        const targetLang = request.targetLang ?? settings.targetLang;
+        const translation = request.translation?.trim() ?? "";
+        const corrections = upsertCorrection(await getCorrections(), {
+            text: request.text,
+            targetLang,
+            translation,
+            rejected: request.rejected,
+            streamerId: request.streamerId,
+            updatedAt: Date.now(),
+        });
+        await saveCorrections(corrections);
+        correctionsPromise = Promise.resolve(corrections);
+
+        if (translation && request.addToGlossary) {
+            const entry: GlossaryEntry = { term: request.text.trim(), translation, scope: request.streamerId ?? GLOBAL_SCOPE };
+            await saveGlossary([...await getGlossary(), entry]);
+            glossaryPromise = null;
+        }
+
+        // Cached translations only exist for the current target language
+        if (targetLang === settings.targetLang) {
+            const key = await currentCacheKey(settings, request.text, request.streamerId);
+            if (translation) await cacheSet(settings, key, { result: translation, skipped: false });
+            else await cacheDelete(key);
+        }
+        return { success: true, corrections };
+    } catch (err) {
+        console.error("[SOOP Translator] Failed to save correction:", err);
+        return { success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+}
+
+async function handleCorrectionDelete(request: CorrectionDeleteRequest): Promise<CorrectionResponse> {
+    try {
+        const previous = await getCorrections();
+        const removed = previous.find((c) => c.text === request.text && c.targetLang === request.targetLang);
+        const settings = await getChannelSettings(removed?.streamerId);
+        const corrections = removeCorrection(previous, request);
+        await saveCorrections(corrections);
+        correctionsPromise = Promise.resolve(corrections);
+
+        // The cached copy of the correction would otherwise keep being served
+        if (removed && request.targetLang === settings.targetLang) {
+            await cacheDelete(await currentCacheKey(settings, request.text, removed.streamerId));
+        }
+        return { success: true, corrections };
+    } catch (err) {
+        console.error("[SOOP Translator] Failed to delete correction:", err);
+        return { success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+}
+
+// --- Translation ---
+// Lines from the tab being watched are sent first; requests without a visibility
+// (older content scripts) count as visible.
+const TAB_PRIORITY: Record<TabVisibility, number> = { focused: 2, visible: 1, hidden: 0 };
+
+/**
+ * Settings for a compose-helper draft: written in the reader's language (targetLang),
+ * posted in outgoingTargetLang.
+ */
+function outgoingSettings(settings: TranslatorSettings): TranslatorSettings {
+    return { ...settings, sourceLang: settings.targetLang, targetLang: settings.outgoingTargetLang };
+}
+
+/**
+ * Resolves one chat line: cache, same-language skip, then the (batched) API call.
+ * `onPartial` is only used when streaming is enabled in settings. Lines are only
+ * batched with others from the same `tabId`.
+ * Aborting `signal` cancels the line; the response is then a failure.
+ * Outgoing drafts use the reversed language pair and neither glossary nor context,
+ * both of which describe incoming chat.
+ */
+async function handleTranslate(
+    request: TranslateRequest,
+    onPartial?: (partial: string) => void,
+    signal?: AbortSignal,
+    tabId?: number
+): Promise<TranslateResponse> {
+    const { text } = request;
+    const startedAt = performance.now();
+    try {
+        const stored = await getChannelSettings(request.streamerId);
+        const settings = request.outgoing ? outgoingSettings(stored) : stored;
+
+        if (!settings.enabled) {
+            return { success: false, error: "Translation is disabled" };
+        }
+
+        const glossary = request.outgoing ? [] : matchGlossary(await getGlossary(), [text], request.streamerId);
+        const prompt = await getPromptPreset(settings);
+        const cacheKey = cacheKeyFor(settings, text, glossary, prompt);
+
+        // Cache hit — return immediately without calling the API
+        const cached = request.refresh ? undefined : await cacheGet(settings, cacheKey);
+        if (cached !== undefined) {
+            metrics.recordCacheHit();
+            return {
+                success: true,
+                result: cached.result,
+                cached: true,
+                skipped: cached.skipped,
+                detectedLang: cached.detectedLang,
+                reading: cached.reading,
+            };
+        }
+
+        // A line the user corrected gets their translation, even once the cache lost it
+        const corrections = request.outgoing ? [] : await getCorrections();
+        const correction = findCorrection(corrections, text, settings.targetLang);
+        if (correction) {
+            await cacheSet(settings, cacheKey, { result: correction.translation, skipped: false });
+            metrics.recordCacheHit();
+            return { success: true, result: correction.translation, cached: true };
+        }
+
+        // Skip lines that are (almost) entirely in the target language already
+        const detection = await detectLanguage(text, getCodeForLangName(settings.targetLang));
+        const detectedLang = detection.language || undefined;
+        if (detection.foreignRatio < settings.minForeignRatio) {
+            await cacheSet(settings, cacheKey, { result: text, skipped: true, detectedLang }); // Cache the original as the "translation"
+            metrics.recordSkip();
+            return { success: true, result: text, cached: false, skipped: true, detectedLang };
+        }
+
+        // Translate using the local NPU / external API, batched with nearby lines
+        let reading: string | undefined;
+        const raw = await batcher.enqueue(text, settings, {
+            context: settings.contextWindowSize > 0 && !request.outgoing
+                ? request.context?.slice(-settings.contextWindowSize)
+                : undefined,
+            glossary,
+            examples: matchExamples(corrections, [text], settings.targetLang),
+            prompt,
+            onPartial: settings.streaming ? onPartial : undefined,
+            readings: !request.outgoing && wantsReading(settings, text),
+            onReading: (value) => {
+                reading = value;
+            },
+            signal,
+            priority: TAB_PRIORITY[request.visibility ?? "visible"],
+            tabId,
+        });
+        const result = applyGlossary(text, raw, glossary);
+        metrics.recordTranslation(performance.now() - startedAt);
+
+        await cacheSet(settings, cacheKey, { result, skipped: false, detectedLang, reading });
+        return { success: true, result, cached: false, detectedLang, reading };
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Unknown error";
+        if (signal?.aborted) return { success: false, error: errorMessage }; // expected, not worth logging
+        console.error("[SOOP Translator] Error:", errorMessage);
+        metrics.recordError(err);
+        return { success: false, error: errorMessage };
+    }
+}
+
+// --- Prompt test ---
+// The popup's "test this prompt": one line through the primary endpoint, bypassing
+// cache, batching and failover so the result shows exactly what the preset does.
+async function handlePromptTest(request: PromptTestRequest): Promise<PromptTestResponse> {
+    const startedAt = performance.now();
+    try {
+        const settings = await getSettings();
+        if (settings.provider === "libretranslate") {
+            return { success: false, error: "LibreTranslate does not use prompts" };
+        }
+        const result = await createBackend(settings).translate(request.text, {
+            targetLang: settings.targetLang,
+            sourceLang: settings.sourceLang,
+            prompt: request.preset,
+            signal: AbortSignal.timeout(Math.max(1, settings.requestTimeoutSeconds) * 1000),
+        });
+        return { success: true, result, ms: Math.round(performance.now() - startedAt) };
+    } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : "Unknown error" };
+    }
+}
+
+// --- Cancellation ---
+// One-shot TRANSLATE messages that carry a requestId, keyed by tab so ids from
+// different tabs cannot collide.
+const cancellableRequests = new Map<string, AbortController>();
+
+function requestKey(sender: chrome.runtime.MessageSender, requestId: number): string {
+    return `${sender.tab?.id ?? -1}:${requestId}`;
+}
+
+function cancelledError(): DOMException {
+    return new DOMException("Translation cancelled", "AbortError");
+}
+
+function translateCancellable(request: TranslateRequest, sender: chrome.runtime.MessageSender): Promise<TranslateResponse> {
+    if (request.requestId === undefined) return handleTranslate(request, undefined, undefined, sender.tab?.id);
+
+    const key = requestKey(sender, request.requestId);
+    const controller = new AbortController();
+    cancellableRequests.set(key, controller);
+    return handleTranslate(request, undefined, controller.signal, sender.tab?.id)
+        .finally(() => cancellableRequests.delete(key));
 }
 
 // --- Message listener ---
 chrome.runtime.onMessage.addListener(
     (
-        message: TranslateRequest,
-        _sender: chrome.runtime.MessageSender,
-        sendResponse: (response: TranslateResponse) => void
+        message: BackgroundRequest,
+        sender: chrome.runtime.MessageSender,
+        sendResponse: (
+            response:
+                | TranslateResponse
+                | CacheStatsResponse
+                | EndpointStatusResponse
+                | MetricsResponse
+                | TranscriptResponse
+                | CorrectionResponse
+                | PromptTestResponse
+        ) => void
     ) => {
-        if (message.type !== "TRANSLATE") return false;
-
-        (async () => {
-            try {
-                const settings = await getSettings();
-
-                if (!settings.enabled) {
-                    sendResponse({ success: false, error: "Translation is disabled" });
-                    return;
-                }
-
-                const cacheKey = `${settings.targetLang}::${message.text}`;
-
-                // Cache hit — return immediately without calling the API
-                const cached = cacheGet(cacheKey);
-                if (cached !== undefined) {
-                    sendResponse({ success: true, result: cached, cached: true });
-                    return;
-                }
-
-                // Detect language using Chrome's built-in API
-                const targetCode = getCodeForLangName(settings.targetLang);
-                if (targetCode) {
-                    const detected = await new Promise<chrome.i18n.LanguageDetectionResult>((resolve) => {
-                        chrome.i18n.detectLanguage(message.text, resolve);
-                    });
-
-                    if (detected && detected.isReliable && detected.languages.length > 0) {
-                        const topLang = detected.languages[0].language; // e.g., 'ko', 'en', 'ja'
-
-                        // If the text is already primarily in the target language, skip translation
-                        if (topLang === targetCode || topLang.startsWith(targetCode)) {
-                            cacheSet(cacheKey, message.text); // Cache the original as the "translation"
-                            sendResponse({ success: true, result: message.text, cached: false, skipped: true });
-                            return;
-                        }
-                    }
-                }
-
-                // Translate using the local NPU / external API
-                const client = new TranslatorClient(
-                    settings.apiBase,
-                    settings.model,
-                    settings.apiKey
-                );
-
-                console.log(`[SOOP Translator] Sending API request to: ${settings.apiBase} | Model: ${settings.model} | Source: ${settings.sourceLang} -> Target: ${settings.targetLang}`);
-
-                const result = await client.translate(message.text, settings.targetLang, settings.sourceLang);
-
-                cacheSet(cacheKey, result);
-                sendResponse({ success: true, result, cached: false });
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "Unknown error";
-                console.error("[SOOP Translator] Error:", errorMessage);
-                sendResponse({ success: false, error: errorMessage });
-            }
-        })();
-
-        return true; // async response
+        switch (message.type) {
+            case "TRANSLATE":
+                translateCancellable(message, sender).then(sendResponse);
+                return true; // async response
+            case "CANCEL":
+                cancellableRequests.get(requestKey(sender, message.requestId))?.abort(cancelledError());
+                return false;
+            case "CACHE_STATS":
+                translationCache.stats()
+                    .then((stats) => sendResponse({ success: true, stats }))
+                    .catch((err) => sendResponse({ success: false, error: String(err) }));
+                return true;
+            case "CACHE_CLEAR":
+                translationCache.clear()
+                    .then(() => translationCache.stats())
+                    .then((stats) => sendResponse({ success: true, stats }))
+                    .catch((err) => sendResponse({ success: false, error: String(err) }));
+                return true;
+            case "ENDPOINT_STATUS":
+                getSettings()
+                    .then((settings) => sendResponse({
+                        success: true,
+                        endpoints: endpointHealth.snapshot(endpointsFor(settings)),
+                    }))
+                    .catch((err) => sendResponse({ success: false, error: String(err) }));
+                return true;
+            case "QUEUE_STATS":
+                if (sender.tab?.id !== undefined) metrics.recordQueue(sender.tab.id, message);
+                return false;
+            case "METRICS":
+                if (message.reset) metrics.reset();
+                sendResponse({ success: true, metrics: metrics.snapshot() });
+                return false;
+            case "TRANSCRIPT_APPEND":
+                getSettings()
+                    .then((settings) => {
+                        // The content script may not have seen recording being switched off yet
+                        if (!settings.transcriptEnabled) return;
+                        return transcripts.append(message.session, message.lines, settings.transcriptRetentionDays);
+                    })
+                    .catch((err) => console.warn("[SOOP Translator] Transcript write failed:", err));
+                return false;
+            case "TRANSCRIPT_SESSIONS":
+                transcripts.sessions()
+                    .then((sessions) => sendResponse({ success: true, sessions }))
+                    .catch((err) => sendResponse({ success: false, error: String(err) }));
+                return true;
+            case "TRANSCRIPT_LINES":
+                transcripts.lines(message.sessionId)
+                    .then((lines) => sendResponse({ success: true, lines }))
+                    .catch((err) => sendResponse({ success: false, error: String(err) }));
+                return true;
+            case "TRANSCRIPT_DELETE":
+                transcripts.delete(message.sessionId)
+                    .then(() => transcripts.sessions())
+                    .then((sessions) => sendResponse({ success: true, sessions }))
+                    .catch((err) => sendResponse({ success: false, error: String(err) }));
+                return true;
+            case "CORRECTION":
+                handleCorrection(message).then(sendResponse);
+                return true;
+            case "CORRECTION_DELETE":
+                handleCorrectionDelete(message).then(sendResponse);
+                return true;
+            case "PROMPT_TEST":
+                handlePromptTest(message).then(sendResponse);
+                return true;
+            default:
+                return false;
+        }
     }
 );
+
+chrome.tabs.onRemoved.addListener((tabId) => metrics.forgetTab(tabId));
+
+// --- Keyboard shortcuts ---
+// Declared under "commands" in the manifest; the content script does the work.
+const COMMAND_MESSAGES: Record<string, TranslateRecentCommand | ToggleComposeCommand> = {
+    "translate-recent": { type: "TRANSLATE_RECENT" },
+    "toggle-compose": { type: "TOGGLE_COMPOSE" },
+};
+
+chrome.commands.onCommand.addListener((command, tab) => {
+    const message = COMMAND_MESSAGES[command];
+    if (!message || tab?.id === undefined) return;
+    chrome.tabs.sendMessage(tab.id, message, () => void chrome.runtime.lastError); // not a SOOP tab
+});
+
+// --- Streaming port ---
+// Content scripts open one port per tab and multiplex requests over it by id.
+chrome.runtime.onConnect.addListener((port) => {
+    if (port.name !== STREAM_PORT_NAME) return;
+
+    let connected = true;
+    const controllers = new Map<number, AbortController>();
+    port.onDisconnect.addListener(() => {
+        connected = false;
+        // The tab navigated away or closed; nothing is waiting for these lines
+        for (const controller of controllers.values()) controller.abort(cancelledError());
+        controllers.clear();
+    });
+
+    const post = (message: StreamPortMessage) => {
+        if (connected) port.postMessage(message);
+    };
+
+    port.onMessage.addListener((message: StreamPortRequest) => {
+        if (message.type === "CANCEL") {
+            controllers.get(message.id)?.abort(cancelledError());
+            return;
+        }
+        if (message.type !== "TRANSLATE") return;
+
+        const { id } = message;
+        const controller = new AbortController();
+        controllers.set(id, controller);
+        handleTranslate(message, (text) => post({ type: "PARTIAL", id, text }), controller.signal, port.sender?.tab?.id)
+            .then((response) => {
+                controllers.delete(id);
+                post({ type: "RESULT", id, ...response });
+            });
+    });
+});
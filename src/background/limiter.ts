@@ -0,0 +1,65 @@
+/**
+ * Adaptive concurrency limit for API requests, shared by every tab.
+ *
+ * AIMD, as in TCP congestion control: each request that finishes without sign of
+ * overload raises the limit by 1/limit (about +1 per round of requests); an overload
+ * halves it. Overload is a 429 or 5xx response, a timeout, or latency well above the
+ * best latency seen recently. The user's `maxConcurrentRequests` is the upper bound.
+ */
+
+import { ApiError } from "../api/backend";
+
+const MIN_LIMIT = 1;
+// Latency this many times the baseline counts as the server queueing requests
+const LATENCY_TOLERANCE = 2;
+// The baseline drifts up by this share per sample, so it follows a slower model or
+// longer messages instead of remembering one lucky request forever
+const BASELINE_DRIFT = 0.02;
+
+/** Whether a failed request says the server is overloaded rather than down or wrong. */
+export function isOverload(err: unknown): boolean {
+    if (err instanceof ApiError) return err.status === 429 || err.status >= 500;
+    return err instanceof Error && err.name === "TimeoutError";
+}
+
+export class ConcurrencyLimiter {
+    private limit = MIN_LIMIT;
+    private baselineMs: number | null = null;
+    // Requests started before the last decrease ran under the old limit; their
+    // results say nothing about the new one
+    private lastDecreaseAt = 0;
+
+    /** Requests allowed in flight right now, at most `max`. */
+    capacity(max: number): number {
+        this.limit = Math.min(this.limit, Math.max(MIN_LIMIT, max));
+        return Math.max(MIN_LIMIT, Math.floor(this.limit));
+    }
+
+    /**
+     * A request that started at `startedAt` (epoch ms) finished after `latencyMs`.
+     * Pass latency per line for batches, so batch size does not look like load.
+     */
+    recordSuccess(startedAt: number, latencyMs: number, max: number) {
+        if (this.baselineMs === null || latencyMs < this.baselineMs) {
+            this.baselineMs = latencyMs;
+        } else {
+            this.baselineMs += (latencyMs - this.baselineMs) * BASELINE_DRIFT;
+        }
+        if (latencyMs > this.baselineMs * LATENCY_TOLERANCE) {
+            this.decrease(startedAt);
+            return;
+        }
+        this.limit = Math.min(Math.max(MIN_LIMIT, max), this.limit + 1 / this.limit);
+    }
+
+    /** A request that started at `startedAt` failed with a 429/5xx or timed out. */
+    recordOverload(startedAt: number) {
+        this.decrease(startedAt);
+    }
+
+    private decrease(startedAt: number) {
+        if (startedAt < this.lastDecreaseAt) return;
+        this.limit = Math.max(MIN_LIMIT, this.limit / 2);
+        this.lastDecreaseAt = Date.now();
+    }
+}
@@ -0,0 +1,149 @@
+/**
+ * In-memory translation metrics for the popup's live panel and JSON export.
+ *
+ * Records every line the background answers (translated, cache hit, skipped or
+ * failed), API latency, token usage when the server reports it, and the queue each
+ * content script reports. Kept since the service worker started or the last reset;
+ * nothing is persisted.
+ */
+
+import { ApiError, type TokenUsage } from "../api/backend";
+import { BatchMismatchError } from "../api/parser";
+import type { MetricsError, MetricsSnapshot, QueueStatsReport } from "../shared/messages";
+
+// Latency percentiles are taken over this many recent translations
+const MAX_LATENCY_SAMPLES = 500;
+const MAX_RECENT_ERRORS = 20;
+const THROUGHPUT_WINDOW_MS = 60 * 1000;
+
+/** Short, stable label for grouping errors; the message goes in the recent list. */
+export function errorType(err: unknown): string {
+    if (err instanceof ApiError) return `HTTP ${err.status}`;
+    if (err instanceof BatchMismatchError) return "bad output";
+    if (!(err instanceof Error)) return "other";
+    if (err.name === "TimeoutError") return "timeout";
+    if (err.name === "TypeError") return "network"; // fetch() could not reach the server
+    if (/^(Unusable model output|Empty response)/.test(err.message)) return "bad output";
+    return "other";
+}
+
+function percentile(sorted: number[], p: number): number | null {
+    if (sorted.length === 0) return null;
+    const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+    return sorted[Math.max(0, index)];
+}
+
+export class MetricsRecorder {
+    private since = Date.now();
+    private translated = 0;
+    private cacheHits = 0;
+    private skipped = 0;
+    private failed = 0;
+    private latencies: Array<{ at: number; ms: number }> = [];
+    private answeredAt: number[] = []; // within THROUGHPUT_WINDOW_MS
+    private tokens = { prompt: 0, completion: 0, completions: 0 };
+    private errorsByType: Record<string, number> = {};
+    private recentErrors: MetricsError[] = [];
+    private queues = new Map<number, { queued: number; inFlight: number }>();
+    private concurrency = { limit: 0, max: 0 };
+
+    /** A line translated by the API, `ms` after the background received it. */
+    recordTranslation(ms: number) {
+        this.translated++;
+        this.latencies.push({ at: Date.now(), ms: Math.round(ms) });
+        if (this.latencies.length > MAX_LATENCY_SAMPLES) this.latencies.shift();
+        this.recordAnswer();
+    }
+
+    recordCacheHit() {
+        this.cacheHits++;
+        this.recordAnswer();
+    }
+
+    /** A line already in the target language. */
+    recordSkip() {
+        this.skipped++;
+        this.recordAnswer();
+    }
+
+    recordError(err: unknown) {
+        this.failed++;
+        const type = errorType(err);
+        this.errorsByType[type] = (this.errorsByType[type] ?? 0) + 1;
+        this.recentErrors.unshift({
+            at: Date.now(),
+            type,
+            message: err instanceof Error ? err.message : String(err),
+        });
+        this.recentErrors.length = Math.min(this.recentErrors.length, MAX_RECENT_ERRORS);
+    }
+
+    recordUsage(usage: TokenUsage) {
+        this.tokens.prompt += usage.promptTokens;
+        this.tokens.completion += usage.completionTokens;
+        this.tokens.completions++;
+    }
+
+    /** Current adaptive concurrency limit and its upper bound (see limiter.ts). */
+    recordConcurrency(limit: number, max: number) {
+        this.concurrency = { limit, max };
+    }
+
+    recordQueue(tabId: number, report: QueueStatsReport) {
+        this.queues.set(tabId, { queued: report.queued, inFlight: report.inFlight });
+    }
+
+    forgetTab(tabId: number) {
+        this.queues.delete(tabId);
+    }
+
+    snapshot(): MetricsSnapshot {
+        const sorted = this.latencies.map((sample) => sample.ms).sort((a, b) => a - b);
+        this.pruneAnswers();
+        let queued = 0;
+        let inFlight = 0;
+        for (const queue of this.queues.values()) {
+            queued += queue.queued;
+            inFlight += queue.inFlight;
+        }
+        return {
+            since: this.since,
+            translated: this.translated,
+            cacheHits: this.cacheHits,
+            skipped: this.skipped,
+            failed: this.failed,
+            latencyMs: { p50: percentile(sorted, 50), p95: percentile(sorted, 95), samples: sorted.length },
+            messagesPerMinute: this.answeredAt.length,
+            tokens: { ...this.tokens },
+            errorsByType: { ...this.errorsByType },
+            recentErrors: [...this.recentErrors],
+            queue: { queued, inFlight, tabs: this.queues.size },
+            concurrency: { ...this.concurrency },
+            latencySamples: [...this.latencies],
+        };
+    }
+
+    /** Starts a new measurement, e.g. before benchmarking another model. Queue reports are kept. */
+    reset() {
+        this.since = Date.now();
+        this.translated = 0;
+        this.cacheHits = 0;
+        this.skipped = 0;
+        this.failed = 0;
+        this.latencies = [];
+        this.answeredAt = [];
+        this.tokens = { prompt: 0, completion: 0, completions: 0 };
+        this.errorsByType = {};
+        this.recentErrors = [];
+    }
+
+    private recordAnswer() {
+        this.answeredAt.push(Date.now());
+        this.pruneAnswers();
+    }
+
+    private pruneAnswers() {
+        const cutoff = Date.now() - THROUGHPUT_WINDOW_MS;
+        while (this.answeredAt.length > 0 && this.answeredAt[0] < cutoff) this.answeredAt.shift();
+    }
+}
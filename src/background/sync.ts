@@ -0,0 +1,93 @@
+/**
+ * Mirrors the synced settings between chrome.storage.local and chrome.storage.sync
+ * while sync is switched on (see src/config/sync.ts for what is synced).
+ *
+ * Local changes are pushed; changes from other browsers are checked like an imported
+ * file, get this browser's API keys back and are written locally. Only values that
+ * differ are written, so a pulled change does not bounce back as a push.
+ */
+
+import { restoreApiKeys, validateSettings } from "../config/backup";
+import { DEFAULT_SETTINGS, type TranslatorSettings } from "../config/defaults";
+import { syncActiveProfile } from "../config/profiles";
+import { SYNCED_FIELDS, isSyncedField, loadSyncEnabled, toSyncItems } from "../config/sync";
+
+type StorageChanges = Record<string, chrome.storage.StorageChange>;
+
+function differs(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) !== JSON.stringify(b);
+}
+
+function localSettings(): Promise<TranslatorSettings> {
+    return new Promise((resolve) => {
+        chrome.storage.local.get(DEFAULT_SETTINGS, (items) => resolve(items as TranslatorSettings));
+    });
+}
+
+function syncGet(keys: string[]): Promise<Record<string, unknown>> {
+    return new Promise((resolve) => chrome.storage.sync.get(keys, (items) => resolve(items)));
+}
+
+export class SettingsSync {
+    /** Uploads local settings changes. */
+    async push(changes: StorageChanges): Promise<void> {
+        const changed: Partial<Record<keyof TranslatorSettings, unknown>> = {};
+        for (const [key, change] of Object.entries(changes)) {
+            if (isSyncedField(key) && change.newValue !== undefined) changed[key] = change.newValue;
+        }
+        if (Object.keys(changed).length === 0 || !(await loadSyncEnabled())) return;
+        await this.upload(toSyncItems(changed as Partial<TranslatorSettings>));
+    }
+
+    /** Applies settings changed on another browser. */
+    async pull(changes: StorageChanges): Promise<void> {
+        if (!(await loadSyncEnabled())) return;
+        const incoming: Record<string, unknown> = {};
+        for (const [key, change] of Object.entries(changes)) {
+            if (isSyncedField(key) && change.newValue !== undefined) incoming[key] = change.newValue;
+        }
+        await this.applyRemote(incoming);
+    }
+
+    /**
+     * Run when sync is switched on: adopts the settings already in the account, then
+     * uploads this browser's values for anything the account does not have yet.
+     */
+    async join(): Promise<void> {
+        await this.applyRemote(await syncGet(SYNCED_FIELDS));
+        await this.upload(toSyncItems(await localSettings()));
+    }
+
+    private async upload(items: Record<string, unknown>): Promise<void> {
+        const stored = await syncGet(Object.keys(items));
+        const changed = Object.fromEntries(Object.entries(items).filter(([key, value]) => differs(value, stored[key])));
+        if (Object.keys(changed).length === 0) return;
+        await new Promise<void>((resolve) => {
+            chrome.storage.sync.set(changed, () => {
+                // Quota errors leave the other browsers behind but never affect this one
+                if (chrome.runtime.lastError) {
+                    console.warn("[SOOP Translator] Settings sync upload failed:", chrome.runtime.lastError.message);
+                }
+                resolve();
+            });
+        });
+    }
+
+    private async applyRemote(raw: Record<string, unknown>): Promise<void> {
+        if (Object.keys(raw).length === 0) return;
+        const { settings, problems } = validateSettings(raw);
+        if (problems.length > 0) console.warn("[SOOP Translator] Ignored synced settings:", problems);
+
+        const current = await localSettings();
+        const restored = restoreApiKeys(settings, current);
+        const changed: Partial<TranslatorSettings> = {};
+        for (const [key, value] of Object.entries(restored) as Array<[keyof TranslatorSettings, unknown]>) {
+            if (differs(value, current[key])) (changed as Record<string, unknown>)[key] = value;
+        }
+        if (Object.keys(changed).length === 0) return;
+
+        await new Promise<void>((resolve) => chrome.storage.local.set(changed, () => resolve()));
+        await syncActiveProfile(changed);
+        console.log("[SOOP Translator] Applied synced settings:", Object.keys(changed));
+    }
+}
@@ -0,0 +1,131 @@
+/**
+ * Recorded chat transcripts, one session per broadcast, backed by IndexedDB.
+ *
+ * Content scripts send lines while recording is switched on; a line is written again
+ * under the same key once its translation arrives. Sessions whose last line is older
+ * than the retention period are deleted together with their lines.
+ * Kept in its own database so the translation cache can be cleared or upgraded alone.
+ */
+
+import type { TranscriptLine, TranscriptSession, TranscriptSessionInfo } from "../shared/messages";
+import { promisify, transactionDone } from "./idb";
+
+const DB_NAME = "soop-transcripts";
+const DB_VERSION = 1;
+const SESSION_STORE = "sessions";
+const LINE_STORE = "lines";
+
+// Retention is applied at most this often, on a write
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+type StoredSession = Omit<TranscriptSession, "lineCount">;
+
+interface StoredLine extends TranscriptLine {
+    sessionId: string;
+}
+
+export class TranscriptStore {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    private lastPruneAt = 0;
+
+    /** Adds or updates lines of a session, creating the session on its first line. */
+    async append(info: TranscriptSessionInfo, lines: TranscriptLine[], retentionDays: number): Promise<void> {
+        if (lines.length === 0) return;
+        const db = await this.open();
+        const tx = db.transaction([SESSION_STORE, LINE_STORE], "readwrite");
+        const sessions = tx.objectStore(SESSION_STORE);
+        const lineStore = tx.objectStore(LINE_STORE);
+
+        const existing: StoredSession | undefined = await promisify(sessions.get(info.id));
+        const times = lines.map((line) => line.at);
+        const session: StoredSession = {
+            ...existing,
+            ...info,
+            title: info.title || existing?.title, // keep the last known title
+            startedAt: Math.min(existing?.startedAt ?? Infinity, ...times),
+            lastAt: Math.max(existing?.lastAt ?? 0, ...times),
+        };
+        sessions.put(session);
+        for (const line of lines) {
+            const stored: StoredLine = { ...line, sessionId: info.id };
+            lineStore.put(stored);
+        }
+        await transactionDone(tx);
+
+        if (Date.now() - this.lastPruneAt > PRUNE_INTERVAL_MS) {
+            this.lastPruneAt = Date.now();
+            await this.prune(retentionDays);
+        }
+    }
+
+    /** Every session with its line count, most recently active first. */
+    async sessions(): Promise<TranscriptSession[]> {
+        const db = await this.open();
+        const tx = db.transaction([SESSION_STORE, LINE_STORE], "readonly");
+        const stored: StoredSession[] = await promisify(tx.objectStore(SESSION_STORE).getAll());
+        const bySession = tx.objectStore(LINE_STORE).index("sessionId");
+        const counts = await Promise.all(stored.map((session) => promisify(bySession.count(session.id))));
+        return stored
+            .map((session, i) => ({ ...session, lineCount: counts[i] }))
+            .sort((a, b) => b.lastAt - a.lastAt);
+    }
+
+    /** A session's lines in the order they appeared. */
+    async lines(sessionId: string): Promise<TranscriptLine[]> {
+        const db = await this.open();
+        const tx = db.transaction(LINE_STORE, "readonly");
+        const stored: StoredLine[] = await promisify(tx.objectStore(LINE_STORE).index("sessionId").getAll(sessionId));
+        return stored
+            .map(({ sessionId: _sessionId, ...line }) => line)
+            .sort((a, b) => a.at - b.at);
+    }
+
+    async delete(sessionId: string): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction([SESSION_STORE, LINE_STORE], "readwrite");
+        tx.objectStore(SESSION_STORE).delete(sessionId);
+        const request = tx.objectStore(LINE_STORE).index("sessionId").openKeyCursor(sessionId);
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            tx.objectStore(LINE_STORE).delete(cursor.primaryKey);
+            cursor.continue();
+        };
+        await transactionDone(tx);
+    }
+
+    /** Deletes sessions whose last line is older than `retentionDays`. */
+    private async prune(retentionDays: number): Promise<void> {
+        const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+        const db = await this.open();
+        const tx = db.transaction(SESSION_STORE, "readonly");
+        const expired: IDBValidKey[] = await promisify(
+            tx.objectStore(SESSION_STORE).index("lastAt").getAllKeys(IDBKeyRange.upperBound(cutoff))
+        );
+        for (const sessionId of expired) {
+            await this.delete(String(sessionId));
+        }
+        if (expired.length > 0) {
+            console.log(`[SOOP Translator] Deleted ${expired.length} transcript session(s) past retention`);
+        }
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    db.createObjectStore(SESSION_STORE, { keyPath: "id" }).createIndex("lastAt", "lastAt");
+                    db.createObjectStore(LINE_STORE, { keyPath: ["sessionId", "lineId"] }).createIndex("sessionId", "sessionId");
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.dbPromise = null; // allow a retry on the next call
+                    reject(request.error);
+                };
+            });
+        }
+        return this.dbPromise;
+    }
+}
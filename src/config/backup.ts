@@ -0,0 +1,318 @@
+/**
+ * Settings export/import as a versioned JSON file, so a configuration can be moved
+ * between browsers or shared with a team.
+ *
+ * A backup holds the flat settings plus the separately stored profiles, glossary,
+ * message filter, prompt presets and channel overrides. API keys are left out unless asked for; an
+ * import without keys keeps the ones already in this browser.
+ *
+ * Every value is checked on import. Older shapes are migrated first:
+ * - version 0: a bare TranslatorSettings object (or a storage dump) with no envelope
+ * - version 1: the current envelope
+ */
+
+import { CHANNEL_OVERRIDES_STORAGE_KEY, normalizeChannelOverrides, type ChannelOverrides } from "./channels";
+import {
+    DEFAULT_SETTINGS,
+    type BackendProvider,
+    type DisplayMode,
+    type EndpointConfig,
+    type QueueDropPolicy,
+    type TargetCategory,
+    type TranslateMode,
+    type TranslatorSettings,
+} from "./defaults";
+import { FILTER_STORAGE_KEY, normalizeFilterConfig, type MessageFilterConfig } from "./filters";
+import { GLOSSARY_STORAGE_KEY, normalizeEntries, type GlossaryEntry } from "./glossary";
+import {
+    ACTIVE_PROFILE_STORAGE_KEY,
+    PROFILES_STORAGE_KEY,
+    PROFILE_FIELDS,
+    syncActiveProfile,
+    type SettingsProfile,
+} from "./profiles";
+import { PROMPT_PRESETS_STORAGE_KEY, normalizePresets, type PromptPreset } from "./prompts";
+
+export const BACKUP_FORMAT = "soop-chat-translator-settings";
+export const BACKUP_VERSION = 1;
+
+export interface SettingsBackup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    includesApiKeys: boolean;
+    settings: Partial<TranslatorSettings>;
+    profiles?: SettingsProfile[];
+    activeProfileId?: string;
+    glossary?: GlossaryEntry[];
+    messageFilter?: MessageFilterConfig;
+    promptPresets?: PromptPreset[];
+    channelOverrides?: ChannelOverrides;
+}
+
+export interface ParsedBackup {
+    backup: SettingsBackup;
+    /** Values dropped or changed while checking the file, for the user to review. */
+    problems: string[];
+}
+
+// --- Validation ---
+
+const PROVIDERS: readonly BackendProvider[] = ["npu", "openai", "ollama", "llamacpp", "libretranslate"];
+const QUEUE_DROP_POLICIES: readonly QueueDropPolicy[] = ["oldest", "offscreen"];
+const TRANSLATE_MODES: readonly TranslateMode[] = ["all", "hover", "filtered"];
+const DISPLAY_MODES: readonly DisplayMode[] = ["below", "replace", "side", "tooltip"];
+const TARGET_CATEGORIES: readonly TargetCategory[] = ["chat", "donation", "notice", "system", "title", "replay"];
+
+const ENUM_FIELDS: Partial<Record<keyof TranslatorSettings, readonly string[]>> = {
+    provider: PROVIDERS,
+    queueDropPolicy: QUEUE_DROP_POLICIES,
+    translateMode: TRANSLATE_MODES,
+    displayMode: DISPLAY_MODES,
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateEndpoints(raw: unknown, problems: string[]): EndpointConfig[] | undefined {
+    if (!Array.isArray(raw)) {
+        problems.push("fallbackEndpoints: 목록이 아니라서 무시했습니다.");
+        return undefined;
+    }
+    const endpoints: EndpointConfig[] = [];
+    raw.forEach((item, i) => {
+        if (!isRecord(item) || !PROVIDERS.includes(item.provider as BackendProvider) || typeof item.apiBase !== "string") {
+            problems.push(`fallbackEndpoints ${i + 1}번: 백엔드나 주소가 올바르지 않아 뺐습니다.`);
+            return;
+        }
+        endpoints.push({
+            provider: item.provider as BackendProvider,
+            apiBase: item.apiBase.trim(),
+            model: typeof item.model === "string" ? item.model.trim() : "",
+            apiKey: typeof item.apiKey === "string" ? item.apiKey : "",
+        });
+    });
+    return endpoints;
+}
+
+/**
+ * Checks each known setting against the type (and allowed values) of its default.
+ * Unknown keys and bad values are dropped and reported; missing keys stay missing.
+ */
+export function validateSettings(raw: unknown): { settings: Partial<TranslatorSettings>; problems: string[] } {
+    const problems: string[] = [];
+    const settings: Record<string, unknown> = {};
+    if (!isRecord(raw)) return { settings, problems: ["설정이 객체가 아니라서 무시했습니다."] };
+
+    for (const [key, value] of Object.entries(raw)) {
+        if (!(key in DEFAULT_SETTINGS)) continue; // other storage keys or newer settings
+        const field = key as keyof TranslatorSettings;
+        const expected = DEFAULT_SETTINGS[field];
+
+        if (field === "fallbackEndpoints") {
+            const endpoints = validateEndpoints(value, problems);
+            if (endpoints) settings[field] = endpoints;
+        } else if (field === "translateTargets") {
+            if (!Array.isArray(value)) {
+                problems.push("translateTargets: 목록이 아니라서 무시했습니다.");
+                continue;
+            }
+            settings[field] = value.filter((t): t is TargetCategory => TARGET_CATEGORIES.includes(t));
+        } else if (typeof value !== typeof expected || (typeof value === "number" && !Number.isFinite(value))) {
+            problems.push(`${field}: 값의 형식이 올바르지 않아 무시했습니다.`);
+        } else if (ENUM_FIELDS[field] && !ENUM_FIELDS[field]!.includes(value as string)) {
+            problems.push(`${field}: 알 수 없는 값 "${value}"라서 무시했습니다.`);
+        } else {
+            settings[field] = value;
+        }
+    }
+
+    // Early versions stored "" for automatic source language detection
+    if (settings.sourceLang === "") settings.sourceLang = "Auto";
+    return { settings: settings as Partial<TranslatorSettings>, problems };
+}
+
+function validateProfiles(raw: unknown, problems: string[]): SettingsProfile[] | undefined {
+    if (raw === undefined) return undefined;
+    if (!Array.isArray(raw)) {
+        problems.push("profiles: 목록이 아니라서 무시했습니다.");
+        return undefined;
+    }
+    const profiles: SettingsProfile[] = [];
+    for (const item of raw) {
+        if (!isRecord(item) || typeof item.id !== "string" || !item.id) {
+            problems.push("profiles: ID가 없는 프로필을 뺐습니다.");
+            continue;
+        }
+        const name = typeof item.name === "string" && item.name.trim() ? item.name.trim() : "프로필";
+        const { settings, problems: fieldProblems } = validateSettings(item);
+        problems.push(...fieldProblems.map((p) => `프로필 "${name}" ${p}`));
+        const fields: Record<string, unknown> = {};
+        for (const field of PROFILE_FIELDS) {
+            fields[field] = settings[field] ?? DEFAULT_SETTINGS[field];
+        }
+        profiles.push({ ...(fields as Pick<TranslatorSettings, typeof PROFILE_FIELDS[number]>), id: item.id, name });
+    }
+    return profiles.length > 0 ? profiles : undefined;
+}
+
+// --- API keys ---
+
+/** Settings without API keys: the primary key is removed, fallback keys are blanked. */
+export function stripApiKeys<T extends Partial<TranslatorSettings>>(settings: T): T {
+    const stripped = { ...settings };
+    delete stripped.apiKey;
+    if (Array.isArray(stripped.fallbackEndpoints)) {
+        stripped.fallbackEndpoints = stripped.fallbackEndpoints.map((e) => ({ ...e, apiKey: "" }));
+    }
+    return stripped;
+}
+
+/**
+ * Fills missing or blank keys in `incoming` from `current`: the primary key, and each
+ * fallback key from the current endpoint with the same provider and address.
+ */
+export function restoreApiKeys<T extends Partial<TranslatorSettings>>(incoming: T, current: Partial<TranslatorSettings>): T {
+    const restored = { ...incoming };
+    if (!restored.apiKey && current.apiKey) restored.apiKey = current.apiKey;
+    if (Array.isArray(restored.fallbackEndpoints)) {
+        const known = current.fallbackEndpoints ?? [];
+        restored.fallbackEndpoints = restored.fallbackEndpoints.map((e) => {
+            if (e.apiKey) return e;
+            const match = known.find((k) => k.provider === e.provider && k.apiBase === e.apiBase);
+            return match ? { ...e, apiKey: match.apiKey } : e;
+        });
+    }
+    return restored;
+}
+
+// --- Export ---
+
+function storageGet(keys: Record<string, unknown>): Promise<Record<string, unknown>> {
+    return new Promise((resolve) => chrome.storage.local.get(keys, (items) => resolve(items)));
+}
+
+function storageSet(items: Record<string, unknown>): Promise<void> {
+    return new Promise((resolve) => chrome.storage.local.set(items, () => resolve()));
+}
+
+/** Reads this browser's configuration into a backup. */
+export async function createBackup(includeApiKeys: boolean): Promise<SettingsBackup> {
+    const stored = await storageGet({
+        ...DEFAULT_SETTINGS,
+        [PROFILES_STORAGE_KEY]: [],
+        [ACTIVE_PROFILE_STORAGE_KEY]: "",
+        [GLOSSARY_STORAGE_KEY]: [],
+        [FILTER_STORAGE_KEY]: null,
+        [PROMPT_PRESETS_STORAGE_KEY]: [],
+        [CHANNEL_OVERRIDES_STORAGE_KEY]: {},
+    });
+
+    const settings: Partial<TranslatorSettings> = {};
+    for (const key of Object.keys(DEFAULT_SETTINGS) as Array<keyof TranslatorSettings>) {
+        (settings as Record<string, unknown>)[key] = stored[key];
+    }
+    const profiles = stored[PROFILES_STORAGE_KEY] as SettingsProfile[];
+
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        includesApiKeys: includeApiKeys,
+        settings: includeApiKeys ? settings : stripApiKeys(settings),
+        profiles: profiles.length > 0 ? profiles.map((p) => (includeApiKeys ? p : stripApiKeys(p))) : undefined,
+        activeProfileId: (stored[ACTIVE_PROFILE_STORAGE_KEY] as string) || undefined,
+        glossary: normalizeEntries(stored[GLOSSARY_STORAGE_KEY]),
+        messageFilter: normalizeFilterConfig(stored[FILTER_STORAGE_KEY]),
+        promptPresets: normalizePresets(stored[PROMPT_PRESETS_STORAGE_KEY]),
+        channelOverrides: normalizeChannelOverrides(stored[CHANNEL_OVERRIDES_STORAGE_KEY]),
+    };
+}
+
+export function backupToJson(backup: SettingsBackup): string {
+    return JSON.stringify(backup, null, 2);
+}
+
+// --- Import ---
+
+/** Brings an older file up to the current envelope. */
+function migrateBackup(raw: Record<string, unknown>): Record<string, unknown> {
+    if (raw.format === undefined) {
+        // Version 0: the settings themselves, possibly with the other storage keys beside them
+        return {
+            format: BACKUP_FORMAT,
+            version: 1,
+            includesApiKeys: typeof raw.apiKey === "string" && raw.apiKey !== "",
+            settings: raw,
+            profiles: raw[PROFILES_STORAGE_KEY],
+            activeProfileId: raw[ACTIVE_PROFILE_STORAGE_KEY],
+            glossary: raw[GLOSSARY_STORAGE_KEY],
+            messageFilter: raw[FILTER_STORAGE_KEY],
+            promptPresets: raw[PROMPT_PRESETS_STORAGE_KEY],
+            channelOverrides: raw[CHANNEL_OVERRIDES_STORAGE_KEY],
+        };
+    }
+    return raw;
+}
+
+/**
+ * Parses and checks a backup file.
+ * @throws Error with a message for the user if the file is not a usable backup
+ */
+export function parseBackup(json: string): ParsedBackup {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json.replace(/^\uFEFF/, ""));
+    } catch (e) {
+        throw new Error("JSON 파일이 아닙니다.");
+    }
+    if (!isRecord(parsed)) throw new Error("설정 파일 형식이 아닙니다.");
+
+    const raw = migrateBackup(parsed);
+    if (raw.format !== BACKUP_FORMAT) throw new Error("이 확장 프로그램의 설정 파일이 아닙니다.");
+    if (typeof raw.version !== "number" || raw.version > BACKUP_VERSION) {
+        throw new Error("더 새로운 버전에서 만든 설정 파일입니다. 확장 프로그램을 업데이트하세요.");
+    }
+
+    const { settings, problems } = validateSettings(raw.settings);
+    const profiles = validateProfiles(raw.profiles, problems);
+    const backup: SettingsBackup = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+        includesApiKeys: raw.includesApiKeys === true,
+        settings,
+        profiles,
+        activeProfileId: typeof raw.activeProfileId === "string" ? raw.activeProfileId : undefined,
+        glossary: raw.glossary !== undefined ? normalizeEntries(raw.glossary) : undefined,
+        messageFilter: raw.messageFilter != null ? normalizeFilterConfig(raw.messageFilter) : undefined,
+        promptPresets: raw.promptPresets !== undefined ? normalizePresets(raw.promptPresets) : undefined,
+        channelOverrides: raw.channelOverrides != null ? normalizeChannelOverrides(raw.channelOverrides) : undefined,
+    };
+    return { backup, problems };
+}
+
+/**
+ * Writes a backup over this browser's configuration. Settings missing from the file
+ * keep their current values; so do API keys when the file has none.
+ */
+export async function applyBackup(backup: SettingsBackup): Promise<void> {
+    const current = await storageGet({ ...DEFAULT_SETTINGS, [PROFILES_STORAGE_KEY]: [] });
+    const currentProfiles = current[PROFILES_STORAGE_KEY] as SettingsProfile[];
+    const settings = restoreApiKeys(backup.settings, current as Partial<TranslatorSettings>);
+    const items: Record<string, unknown> = { ...settings };
+
+    if (backup.profiles) {
+        items[PROFILES_STORAGE_KEY] = backup.profiles.map((p) => restoreApiKeys(p, currentProfiles.find((c) => c.id === p.id) ?? {}));
+        const active = backup.profiles.find((p) => p.id === backup.activeProfileId) ?? backup.profiles[0];
+        items[ACTIVE_PROFILE_STORAGE_KEY] = active.id;
+    }
+    if (backup.glossary) items[GLOSSARY_STORAGE_KEY] = backup.glossary;
+    if (backup.messageFilter) items[FILTER_STORAGE_KEY] = backup.messageFilter;
+    if (backup.promptPresets) items[PROMPT_PRESETS_STORAGE_KEY] = backup.promptPresets;
+    if (backup.channelOverrides) items[CHANNEL_OVERRIDES_STORAGE_KEY] = backup.channelOverrides;
+    await storageSet(items);
+    // A file without profiles updates the active profile, as editing in the popup would
+    if (!backup.profiles) await syncActiveProfile(settings);
+}
@@ -0,0 +1,106 @@
+/**
+ * Per-channel overrides: settings that differ on one streamer's channel, e.g. a
+ * Japanese target on some channels and no translation on others.
+ *
+ * Stored in chrome.storage.local under `channelOverrides`, keyed by streamer ID and
+ * separate from TranslatorSettings. An override holds only the fields set for that
+ * channel; everything else follows the global settings. The background resolves
+ * the language and enablement fields per request; the content script applies the
+ * translate mode, filter and message filter rules itself.
+ */
+
+import type { TranslatorSettings } from "./defaults";
+import { normalizeFilterConfig, type MessageFilterConfig } from "./filters";
+
+export const CHANNEL_OVERRIDES_STORAGE_KEY = "channelOverrides";
+
+/** Settings a channel can override. */
+export const CHANNEL_OVERRIDE_FIELDS = [
+    "enabled",
+    "sourceLang",
+    "targetLang",
+    "translateMode",
+    "translateFilter",
+    "minForeignRatio",
+] as const satisfies ReadonlyArray<keyof TranslatorSettings>;
+
+export type ChannelOverrideField = typeof CHANNEL_OVERRIDE_FIELDS[number];
+
+export type ChannelOverride = Partial<Pick<TranslatorSettings, ChannelOverrideField>> & {
+    /** Message filter rules used on this channel instead of the global ones (see filters.ts). */
+    messageFilter?: MessageFilterConfig;
+};
+
+/** Overrides by lower-case streamer ID. */
+export type ChannelOverrides = Record<string, ChannelOverride>;
+
+export async function loadChannelOverrides(): Promise<ChannelOverrides> {
+    return new Promise((resolve) => {
+        chrome.storage.local.get({ [CHANNEL_OVERRIDES_STORAGE_KEY]: {} }, (items) => {
+            resolve(normalizeChannelOverrides(items[CHANNEL_OVERRIDES_STORAGE_KEY]));
+        });
+    });
+}
+
+export async function saveChannelOverrides(overrides: ChannelOverrides): Promise<void> {
+    return new Promise((resolve) => {
+        chrome.storage.local.set({ [CHANNEL_OVERRIDES_STORAGE_KEY]: normalizeChannelOverrides(overrides) }, () => resolve());
+    });
+}
+
+/**
+ * Keeps only known fields whose type matches the setting's, and drops channels
+ * left with no override.
+ */
+export function normalizeChannelOverrides(raw: unknown): ChannelOverrides {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return {};
+    const types: Record<ChannelOverrideField, string> = {
+        enabled: "boolean",
+        sourceLang: "string",
+        targetLang: "string",
+        translateMode: "string",
+        translateFilter: "string",
+        minForeignRatio: "number",
+    };
+    const overrides: ChannelOverrides = {};
+    for (const [streamerId, entry] of Object.entries(raw as Record<string, unknown>)) {
+        const id = streamerId.trim().toLowerCase();
+        if (!id || typeof entry !== "object" || entry === null) continue;
+        const override: Record<string, unknown> = {};
+        for (const field of CHANNEL_OVERRIDE_FIELDS) {
+            const value = (entry as Record<string, unknown>)[field];
+            if (typeof value === types[field]) override[field] = value;
+        }
+        const messageFilter = (entry as Record<string, unknown>).messageFilter;
+        if (typeof messageFilter === "object" && messageFilter !== null) {
+            override.messageFilter = normalizeFilterConfig(messageFilter);
+        }
+        if (Object.keys(override).length > 0) overrides[id] = override as ChannelOverride;
+    }
+    return overrides;
+}
+
+/** Sets (or, with an empty override, removes) one channel's override. */
+export function setChannelOverride(overrides: ChannelOverrides, streamerId: string, override: ChannelOverride): ChannelOverrides {
+    const next = { ...overrides };
+    const id = streamerId.toLowerCase();
+    const fields = Object.fromEntries(Object.entries(override).filter(([, value]) => value !== undefined));
+    if (Object.keys(fields).length > 0) {
+        next[id] = fields as ChannelOverride;
+    } else {
+        delete next[id];
+    }
+    return next;
+}
+
+/** The settings in effect on `streamerId`'s channel: its override over the global settings. */
+export function resolveChannelSettings(
+    settings: TranslatorSettings,
+    overrides: ChannelOverrides,
+    streamerId: string | undefined
+): TranslatorSettings {
+    const override = streamerId ? overrides[streamerId.toLowerCase()] : undefined;
+    if (!override) return settings;
+    const { messageFilter: _messageFilter, ...fields } = override;
+    return { ...settings, ...fields };
+}
@@ -0,0 +1,131 @@
+/**
+ * User corrections: translations the user fixed or reported as wrong.
+ *
+ * Stored in chrome.storage.local under `corrections`, separate from TranslatorSettings,
+ * and written only by the background (it also updates the translation cache).
+ * A corrected line is answered with the correction from then on; corrections of
+ * similar lines are given to the model as examples.
+ */
+
+export const CORRECTIONS_STORAGE_KEY = "corrections";
+
+// Oldest corrections are dropped beyond this
+export const MAX_CORRECTIONS = 500;
+// Few-shot examples added to one prompt, and how similar a line must be to get one
+export const MAX_EXAMPLES = 3;
+const MIN_SIMILARITY = 0.4;
+
+export interface Correction {
+    /** The original chat line. */
+    text: string;
+    /** Target language name, as in settings. A line may be corrected once per language. */
+    targetLang: string;
+    /** The user's translation. Empty when the line was only reported as wrong. */
+    translation: string;
+    /** The translation the user rejected. */
+    rejected?: string;
+    /** Channel the line was seen on. */
+    streamerId?: string;
+    updatedAt: number;
+}
+
+/** A corrected line as shown to the model. */
+export interface CorrectionExample {
+    text: string;
+    translation: string;
+}
+
+export async function loadCorrections(): Promise<Correction[]> {
+    return new Promise((resolve) => {
+        chrome.storage.local.get({ [CORRECTIONS_STORAGE_KEY]: [] }, (items) => {
+            resolve(normalizeCorrections(items[CORRECTIONS_STORAGE_KEY]));
+        });
+    });
+}
+
+export async function saveCorrections(corrections: Correction[]): Promise<void> {
+    return new Promise((resolve) => {
+        chrome.storage.local.set({ [CORRECTIONS_STORAGE_KEY]: normalizeCorrections(corrections) }, () => resolve());
+    });
+}
+
+function correctionKey(c: Pick<Correction, "text" | "targetLang">): string {
+    return `${c.targetLang}\u0000${c.text}`;
+}
+
+/**
+ * Drops malformed entries and duplicates (same text + target language, newest wins),
+ * newest first and at most MAX_CORRECTIONS.
+ */
+export function normalizeCorrections(raw: unknown): Correction[] {
+    if (!Array.isArray(raw)) return [];
+    const byKey = new Map<string, Correction>();
+    for (const item of raw) {
+        // Not trimmed: lines are matched exactly as the content script read them
+        const text = typeof item?.text === "string" ? item.text : "";
+        const targetLang = typeof item?.targetLang === "string" ? item.targetLang : "";
+        if (!text.trim() || !targetLang) continue;
+        const correction: Correction = {
+            text,
+            targetLang,
+            translation: typeof item.translation === "string" ? item.translation.trim() : "",
+            rejected: typeof item.rejected === "string" ? item.rejected : undefined,
+            streamerId: typeof item.streamerId === "string" ? item.streamerId : undefined,
+            updatedAt: typeof item.updatedAt === "number" ? item.updatedAt : 0,
+        };
+        const existing = byKey.get(correctionKey(correction));
+        if (!existing || existing.updatedAt <= correction.updatedAt) byKey.set(correctionKey(correction), correction);
+    }
+    return Array.from(byKey.values())
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .slice(0, MAX_CORRECTIONS);
+}
+
+/** `corrections` with `correction` added, replacing an earlier one for the same line. */
+export function upsertCorrection(corrections: Correction[], correction: Correction): Correction[] {
+    return normalizeCorrections([correction, ...corrections.filter((c) => correctionKey(c) !== correctionKey(correction))]);
+}
+
+export function removeCorrection(corrections: Correction[], key: Pick<Correction, "text" | "targetLang">): Correction[] {
+    return corrections.filter((c) => correctionKey(c) !== correctionKey(key));
+}
+
+/** The user's translation of exactly this line, if they gave one. */
+export function findCorrection(corrections: Correction[], text: string, targetLang: string): Correction | undefined {
+    return corrections.find((c) => c.translation && c.targetLang === targetLang && c.text === text);
+}
+
+/** Character bigrams, ignoring case and whitespace; works for unspaced CJK text too. */
+function bigrams(text: string): Set<string> {
+    const chars = Array.from(text.toLowerCase().replace(/\s+/g, ""));
+    const result = new Set<string>();
+    for (let i = 0; i < chars.length - 1; i++) result.add(chars[i] + chars[i + 1]);
+    if (chars.length === 1) result.add(chars[0]);
+    return result;
+}
+
+/** Dice coefficient of the two texts' bigram sets, 0 to 1. */
+function similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    for (const gram of a) if (b.has(gram)) shared++;
+    return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Up to MAX_EXAMPLES corrections most similar to any of `texts`, for the prompt.
+ * Reports without a translation are skipped.
+ */
+export function matchExamples(corrections: Correction[], texts: string[], targetLang: string): CorrectionExample[] {
+    const wanted = texts.map(bigrams);
+    return corrections
+        .filter((c) => c.translation && c.targetLang === targetLang)
+        .map((c) => {
+            const grams = bigrams(c.text);
+            return { c, score: Math.max(...wanted.map((w) => similarity(w, grams))) };
+        })
+        .filter(({ score }) => score >= MIN_SIMILARITY)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_EXAMPLES)
+        .map(({ c }) => ({ text: c.text, translation: c.translation }));
+}
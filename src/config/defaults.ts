@@ -7,26 +7,182 @@ export const DEFAULT_API_BASE = "http://localhost:18181";
 export const DEFAULT_MODEL = "NexaAI/Qwen3-4B-Instruct-2507-npu";
 export const DEFAULT_SOURCE_LANG = "Auto";
 export const DEFAULT_TARGET_LANG = "Korean";
+// Language the compose helper posts in; the draft is written in targetLang
+export const DEFAULT_OUTGOING_TARGET_LANG = "Korean";
 export const DEFAULT_ENABLED = false;
 export const DEFAULT_MAX_CONCURRENT = 3;
 export const DEFAULT_API_KEY = "";
+export const DEFAULT_BATCH_SIZE = 8;
+export const DEFAULT_STREAMING = false;
+export const DEFAULT_CACHE_TTL_HOURS = 24 * 7;
+export const DEFAULT_CACHE_MAX_MB = 8;
+// Kept small: every context line adds prompt tokens and NPU latency
+export const DEFAULT_CONTEXT_WINDOW_SIZE = 3;
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 120;
+// Per attempt; a timed-out endpoint counts as failed and the next one is tried
+export const DEFAULT_REQUEST_TIMEOUT_SECONDS = 30;
+export const DEFAULT_QUEUE_MAX_LENGTH = 40;
+export const DEFAULT_QUEUE_MAX_AGE_SECONDS = 20;
+
+/**
+ * What the content script drops when its queue is over `queueMaxLength`.
+ * - oldest: the lines that have waited longest
+ * - offscreen: lines scrolled out of view first, then the oldest
+ */
+export type QueueDropPolicy = "oldest" | "offscreen";
+
+export const DEFAULT_QUEUE_DROP_POLICY: QueueDropPolicy = "offscreen";
+
+/**
+ * Which chat lines are translated without being asked.
+ * - all: every line
+ * - hover: none; a line is translated when hovered or via its translate button
+ * - filtered: only lines whose text or nickname matches `translateFilter`
+ * Lines can always be translated on demand, whatever the mode.
+ */
+export type TranslateMode = "all" | "hover" | "filtered";
+
+export const DEFAULT_TRANSLATE_MODE: TranslateMode = "all";
+export const DEFAULT_TRANSLATE_FILTER = "";
+export const DEFAULT_SHORTCUT_LINE_COUNT = 5;
+export const DEFAULT_MIN_FOREIGN_RATIO = 0.3;
+
+/**
+ * Parts of a SOOP page that can be translated; see the target table in
+ * src/content/targets.ts for where each one lives in the DOM.
+ */
+export type TargetCategory = "chat" | "donation" | "notice" | "system" | "title" | "replay";
+
+// System announcements are mostly boilerplate, so they start switched off
+export const DEFAULT_TRANSLATE_TARGETS: TargetCategory[] = ["chat", "donation", "notice", "title", "replay"];
+
+/**
+ * How a translation is shown next to its original (styles in src/content/display.css).
+ * - below: on its own line under the original
+ * - replace: in place of the original, which shows while the line is hovered
+ * - side: original and translation side by side
+ * - tooltip: only while the line is hovered
+ * Single-line headings such as the broadcast title always get the translation inline.
+ */
+export type DisplayMode = "below" | "replace" | "side" | "tooltip";
+
+export const DEFAULT_DISPLAY_MODE: DisplayMode = "below";
+export const DEFAULT_TRANSLATION_FONT_SIZE = 85;
+export const DEFAULT_TRANSLATION_COLOR = "";
+export const DEFAULT_TRANSLATION_PREFIX = "🌐 ";
+export const DEFAULT_SHOW_ROMANIZATION = false;
+export const DEFAULT_SHOW_ORIGINAL = false;
+export const DEFAULT_KANJI_READINGS = false;
+
+export const DEFAULT_TRANSCRIPT_ENABLED = false;
+export const DEFAULT_TRANSCRIPT_RETENTION_DAYS = 30;
+
+/**
+ * Translation backend providers.
+ * - npu: OpenAI-compatible Snapdragon NPU server, with its vendor fields (ngl, enable_think, enable_json)
+ * - openai: any plain OpenAI-compatible `/v1/chat/completions` server
+ * - ollama: Ollama native `/api/chat`
+ * - llamacpp: llama.cpp server raw `/completion`
+ * - libretranslate: LibreTranslate `/translate` (no model, no prompts)
+ */
+export type BackendProvider = "npu" | "openai" | "ollama" | "llamacpp" | "libretranslate";
+
+export const DEFAULT_PROVIDER: BackendProvider = "npu";
+export const DEFAULT_OLLAMA_KEEP_ALIVE = "5m";
+export const DEFAULT_LLAMACPP_CACHE_PROMPT = true;
+
+// Suggested API base per provider, used as the popup placeholder.
+export const PROVIDER_DEFAULT_API_BASE: Record<BackendProvider, string> = {
+    npu: DEFAULT_API_BASE,
+    openai: "http://localhost:8000",
+    ollama: "http://localhost:11434",
+    llamacpp: "http://localhost:8080",
+    libretranslate: "http://localhost:5000",
+};
+
+/** Where translation requests go and how; the primary endpoint is the top-level settings. */
+export interface EndpointConfig {
+    provider: BackendProvider;
+    apiBase: string;
+    model: string;
+    apiKey: string;
+}
 
 export interface TranslatorSettings {
+    provider: BackendProvider;
     apiBase: string;
     model: string;
     apiKey: string;
     sourceLang: string;
     targetLang: string;
+    outgoingTargetLang: string; // Compose helper: translate drafts from targetLang into this
     enabled: boolean;
     maxConcurrentRequests: number;
+    batchSize: number; // Max chat lines per completion request (1 = no batching)
+    streaming: boolean; // Render translations token by token (disables batching)
+    cacheTtlHours: number; // Persistent cache entry lifetime
+    cacheMaxMB: number; // Persistent cache size budget; LRU entries evicted beyond this
+    contextWindowSize: number; // Recent chat lines sent as prompt context (0 = off)
+    contextTokenBudget: number; // Max estimated tokens spent on that context
+    requestTimeoutSeconds: number; // Abort an API request after this long
+    queueMaxLength: number; // Lines waiting in a tab's queue before some are dropped
+    queueMaxAgeSeconds: number; // Lines waiting longer than this are dropped as stale
+    queueDropPolicy: QueueDropPolicy;
+    translateMode: TranslateMode;
+    translateFilter: string; // Regular expression (case-insensitive) for "filtered" mode
+    shortcutLineCount: number; // Recent lines translated by the keyboard shortcut
+    minForeignRatio: number; // 0–1; lines with a smaller share of letters not in targetLang are skipped
+    translateTargets: TargetCategory[]; // Page parts translated; chat-like ones follow translateMode
+    displayMode: DisplayMode;
+    translationFontSize: number; // Percent of the original text's size
+    translationColor: string; // CSS color; "" follows the page theme
+    translationPrefix: string; // Shown before every translation ("" for none)
+    showRomanization: boolean; // Romanized original (Hangul, kana) under the translation
+    showOriginal: boolean; // Original text under the translation, for modes that hide it
+    kanjiReadings: boolean; // Ask LLM backends for the hiragana reading of Japanese with kanji
+    transcriptEnabled: boolean; // Record chat lines and translations per broadcast (opt-in)
+    transcriptRetentionDays: number; // Recorded sessions older than this are deleted
+    // Provider-specific options; ignored by other providers
+    ollamaKeepAlive: string;
+    llamaCppCachePrompt: boolean;
+    fallbackEndpoints: EndpointConfig[]; // Tried in order when the primary endpoint fails
 }
 
 export const DEFAULT_SETTINGS: TranslatorSettings = {
+    provider: DEFAULT_PROVIDER,
     apiBase: DEFAULT_API_BASE,
     model: DEFAULT_MODEL,
     apiKey: DEFAULT_API_KEY,
     sourceLang: DEFAULT_SOURCE_LANG,
     targetLang: DEFAULT_TARGET_LANG,
+    outgoingTargetLang: DEFAULT_OUTGOING_TARGET_LANG,
     enabled: DEFAULT_ENABLED,
     maxConcurrentRequests: DEFAULT_MAX_CONCURRENT,
+    batchSize: DEFAULT_BATCH_SIZE,
+    streaming: DEFAULT_STREAMING,
+    cacheTtlHours: DEFAULT_CACHE_TTL_HOURS,
+    cacheMaxMB: DEFAULT_CACHE_MAX_MB,
+    contextWindowSize: DEFAULT_CONTEXT_WINDOW_SIZE,
+    contextTokenBudget: DEFAULT_CONTEXT_TOKEN_BUDGET,
+    requestTimeoutSeconds: DEFAULT_REQUEST_TIMEOUT_SECONDS,
+    queueMaxLength: DEFAULT_QUEUE_MAX_LENGTH,
+    queueMaxAgeSeconds: DEFAULT_QUEUE_MAX_AGE_SECONDS,
+    queueDropPolicy: DEFAULT_QUEUE_DROP_POLICY,
+    translateMode: DEFAULT_TRANSLATE_MODE,
+    translateFilter: DEFAULT_TRANSLATE_FILTER,
+    shortcutLineCount: DEFAULT_SHORTCUT_LINE_COUNT,
+    minForeignRatio: DEFAULT_MIN_FOREIGN_RATIO,
+    translateTargets: DEFAULT_TRANSLATE_TARGETS,
+    displayMode: DEFAULT_DISPLAY_MODE,
+    translationFontSize: DEFAULT_TRANSLATION_FONT_SIZE,
+    translationColor: DEFAULT_TRANSLATION_COLOR,
+    translationPrefix: DEFAULT_TRANSLATION_PREFIX,
+    showRomanization: DEFAULT_SHOW_ROMANIZATION,
+    showOriginal: DEFAULT_SHOW_ORIGINAL,
+    kanjiReadings: DEFAULT_KANJI_READINGS,
+    transcriptEnabled: DEFAULT_TRANSCRIPT_ENABLED,
+    transcriptRetentionDays: DEFAULT_TRANSCRIPT_RETENTION_DAYS,
+    ollamaKeepAlive: DEFAULT_OLLAMA_KEEP_ALIVE,
+    llamaCppCachePrompt: DEFAULT_LLAMACPP_CACHE_PROMPT,
+    fallbackEndpoints: [],
 };
@@ -0,0 +1,91 @@
+/**
+ * Message filter rules: chat lines that are not worth sending to the model.
+ *
+ * Stored in chrome.storage.local under `messageFilter`, separate from TranslatorSettings.
+ * The content script evaluates the rules before a line is queued (src/content/filter.ts)
+ * and only imports the types from here. Lines translated on demand are never filtered.
+ */
+
+export const FILTER_STORAGE_KEY = "messageFilter";
+
+/**
+ * Built-in rules, each skipping lines that are:
+ * - repeated: one short unit repeated ("ㅋㅋㅋㅋ", "!!!!", "gogogo")
+ * - emoticon: only emoji, symbols and punctuation
+ * - url: only links
+ * - number: only digits and number punctuation
+ * - bot: from a bot nickname or a system notice
+ * - command: chat commands such as "!신청곡"
+ */
+export type BuiltinFilterId = "repeated" | "emoticon" | "url" | "number" | "bot" | "command";
+
+export const BUILTIN_FILTER_IDS: readonly BuiltinFilterId[] = ["repeated", "emoticon", "url", "number", "bot", "command"];
+
+/** Chat badges a line can be restricted to. */
+export type ChatBadge = "streamer" | "manager" | "subscriber" | "fan";
+
+export interface MessageFilterConfig {
+    /** Built-in rules switched on. A missing entry counts as on. */
+    builtins: Partial<Record<BuiltinFilterId, boolean>>;
+    /** Nicknames treated as bots by the "bot" rule, compared case-insensitively. */
+    botNames: string[];
+    /** Regular expressions (case-insensitive); a line whose text matches one is skipped. */
+    patterns: string[];
+    /** Lines from these nicknames are skipped. */
+    denyUsers: string[];
+    /** When not empty, only lines from these nicknames are translated. */
+    allowUsers: string[];
+    /** When not empty, only lines from users with one of these badges are translated. */
+    badges: ChatBadge[];
+}
+
+export const DEFAULT_MESSAGE_FILTER: MessageFilterConfig = {
+    builtins: {},
+    botNames: ["싹둑", "ssakdook", "nightbot"],
+    patterns: [],
+    denyUsers: [],
+    allowUsers: [],
+    badges: [],
+};
+
+/**
+ * Key under which the content script counts skips for a rule: the built-in id,
+ * or `pattern:<regex>`, `denyUser`, `allowUser` and `badge` for user rules.
+ */
+export type FilterRuleKey = BuiltinFilterId | "denyUser" | "allowUser" | "badge" | `pattern:${string}`;
+
+function stringList(raw: unknown): string[] {
+    if (!Array.isArray(raw)) return [];
+    return Array.from(new Set(raw.filter((s): s is string => typeof s === "string").map((s) => s.trim()).filter(Boolean)));
+}
+
+/** Fills defaults and drops malformed values, e.g. from an older or hand-edited config. */
+export function normalizeFilterConfig(raw: unknown): MessageFilterConfig {
+    const config = (raw && typeof raw === "object" ? raw : {}) as Partial<MessageFilterConfig>;
+    const builtins: MessageFilterConfig["builtins"] = {};
+    for (const id of BUILTIN_FILTER_IDS) {
+        if (typeof config.builtins?.[id] === "boolean") builtins[id] = config.builtins[id];
+    }
+    return {
+        builtins,
+        botNames: Array.isArray(config.botNames) ? stringList(config.botNames) : DEFAULT_MESSAGE_FILTER.botNames,
+        patterns: stringList(config.patterns),
+        denyUsers: stringList(config.denyUsers),
+        allowUsers: stringList(config.allowUsers),
+        badges: stringList(config.badges) as ChatBadge[],
+    };
+}
+
+export async function loadFilterConfig(): Promise<MessageFilterConfig> {
+    return new Promise((resolve) => {
+        chrome.storage.local.get({ [FILTER_STORAGE_KEY]: DEFAULT_MESSAGE_FILTER }, (items) => {
+            resolve(normalizeFilterConfig(items[FILTER_STORAGE_KEY]));
+        });
+    });
+}
+
+export async function saveFilterConfig(config: MessageFilterConfig): Promise<void> {
+    return new Promise((resolve) => {
+        chrome.storage.local.set({ [FILTER_STORAGE_KEY]: normalizeFilterConfig(config) }, () => resolve());
+    });
+}
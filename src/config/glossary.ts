@@ -0,0 +1,180 @@
+/**
+ * User glossary: forced translations and protected (do-not-translate) terms.
+ *
+ * Stored in chrome.storage.local under `glossary`, separate from TranslatorSettings.
+ * Entries apply globally or to a single streamer ID. The background includes the
+ * entries that occur in a message in the prompt, then post-checks the output.
+ */
+
+export const GLOSSARY_STORAGE_KEY = "glossary";
+export const GLOBAL_SCOPE = "*";
+
+export interface GlossaryEntry {
+    term: string;
+    /** Forced translation. Empty for protected terms, which stay as written. */
+    translation: string;
+    /** GLOBAL_SCOPE or a lower-case SOOP streamer ID. */
+    scope: string;
+}
+
+export function isProtected(entry: GlossaryEntry): boolean {
+    return entry.translation === "";
+}
+
+export async function loadGlossary(): Promise<GlossaryEntry[]> {
+    return new Promise((resolve) => {
+        chrome.storage.local.get({ [GLOSSARY_STORAGE_KEY]: [] }, (items) => {
+            resolve(normalizeEntries(items[GLOSSARY_STORAGE_KEY]));
+        });
+    });
+}
+
+export async function saveGlossary(entries: GlossaryEntry[]): Promise<void> {
+    return new Promise((resolve) => {
+        chrome.storage.local.set({ [GLOSSARY_STORAGE_KEY]: normalizeEntries(entries) }, () => resolve());
+    });
+}
+
+/** Drops malformed entries and duplicates (same term + scope, last one wins); scopes are lower-cased. */
+export function normalizeEntries(raw: unknown): GlossaryEntry[] {
+    if (!Array.isArray(raw)) return [];
+    const byKey = new Map<string, GlossaryEntry>();
+    for (const item of raw) {
+        const term = typeof item?.term === "string" ? item.term.trim() : "";
+        if (!term) continue;
+        const translation = typeof item.translation === "string" ? item.translation.trim() : "";
+        // Streamer IDs are matched in lower case, as they appear in channel URLs
+        const scope = typeof item.scope === "string" && item.scope.trim() ? item.scope.trim().toLowerCase() : GLOBAL_SCOPE;
+        byKey.set(`${scope}\u0000${term}`, { term, translation, scope });
+    }
+    return Array.from(byKey.values());
+}
+
+/**
+ * Entries that apply to `texts` on the given streamer's channel.
+ * A streamer-scoped entry overrides a global one for the same term.
+ */
+export function matchGlossary(entries: GlossaryEntry[], texts: string[], streamerId?: string): GlossaryEntry[] {
+    const byTerm = new Map<string, GlossaryEntry>();
+    for (const entry of entries) {
+        if (entry.scope !== GLOBAL_SCOPE && entry.scope !== streamerId) continue;
+        if (!texts.some((text) => text.includes(entry.term))) continue;
+        const existing = byTerm.get(entry.term);
+        if (!existing || existing.scope === GLOBAL_SCOPE) byTerm.set(entry.term, entry);
+    }
+    return Array.from(byTerm.values());
+}
+
+/** Stable string identifying a set of matched entries; used to key the cache. */
+export function glossaryFingerprint(entries: GlossaryEntry[]): string {
+    return entries
+        .map((e) => `${e.term}=${e.translation}`)
+        .sort()
+        .join("|");
+}
+
+/**
+ * Repairs the model output where the glossary can be enforced mechanically:
+ * a forced term left untranslated in the output is replaced by its translation.
+ * Protected terms that went missing are only logged — we cannot tell which part of
+ * the output they were turned into.
+ */
+export function applyGlossary(source: string, output: string, entries: GlossaryEntry[]): string {
+    let result = output;
+    for (const entry of entries) {
+        if (!source.includes(entry.term)) continue;
+
+        if (isProtected(entry)) {
+            if (!result.includes(entry.term)) {
+                console.warn(`[SOOP Translator] Protected term "${entry.term}" missing from output:`, result);
+            }
+            continue;
+        }
+        if (!result.includes(entry.translation) && result.includes(entry.term)) {
+            result = result.split(entry.term).join(entry.translation);
+        }
+    }
+    return result;
+}
+
+// --- Import / export ---
+
+const CSV_HEADER = ["term", "translation", "scope"];
+
+function csvField(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function glossaryToCsv(entries: GlossaryEntry[]): string {
+    const rows = entries.map((e) => [e.term, e.translation, e.scope].map(csvField).join(","));
+    return [CSV_HEADER.join(","), ...rows].join("\n") + "\n";
+}
+
+/** Parses RFC 4180-style CSV into rows of fields. */
+function parseCsvRows(csv: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    for (let i = 0; i < csv.length; i++) {
+        const ch = csv[i];
+        if (quoted) {
+            if (ch === '"' && csv[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ",") {
+            row.push(field);
+            field = "";
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && csv[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+export function glossaryFromCsv(csv: string): GlossaryEntry[] {
+    const rows = parseCsvRows(csv.replace(/^\uFEFF/, ""));
+    if (rows.length === 0) return [];
+
+    // Header is optional; without one, columns are term, translation, scope
+    const header = rows[0].map((h) => h.trim().toLowerCase());
+    const hasHeader = header.includes("term");
+    const col = (name: string, fallback: number) => (hasHeader ? header.indexOf(name) : fallback);
+    const termCol = col("term", 0);
+    const translationCol = col("translation", 1);
+    const scopeCol = col("scope", 2);
+
+    return normalizeEntries((hasHeader ? rows.slice(1) : rows).map((r) => ({
+        term: r[termCol],
+        translation: translationCol >= 0 ? r[translationCol] ?? "" : "",
+        scope: scopeCol >= 0 ? r[scopeCol] : undefined,
+    })));
+}
+
+export function glossaryToJson(entries: GlossaryEntry[]): string {
+    return JSON.stringify({ version: 1, entries }, null, 2);
+}
+
+/** Accepts `{ entries: [...] }` or a bare array. */
+export function glossaryFromJson(json: string): GlossaryEntry[] {
+    const parsed = JSON.parse(json);
+    return normalizeEntries(Array.isArray(parsed) ? parsed : parsed?.entries);
+}
@@ -0,0 +1,43 @@
+/**
+ * Host permissions for API endpoints.
+ *
+ * The manifest grants the default local ports; any other API address is covered by
+ * `optional_host_permissions` and has to be granted at runtime. Chrome only shows the
+ * prompt for a request made from a click, so call `requestHostPermission` before
+ * awaiting anything in the handler.
+ */
+
+/** Match pattern for an API address's origin, or null if it is not an http(s) URL. */
+export function originPattern(apiBase: string): string | null {
+    try {
+        const url = new URL(apiBase);
+        if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+        return `${url.protocol}//${url.host}/*`;
+    } catch (e) {
+        return null;
+    }
+}
+
+export async function hasHostPermission(apiBase: string): Promise<boolean> {
+    const origin = originPattern(apiBase);
+    if (!origin) return false;
+    return chrome.permissions.contains({ origins: [origin] });
+}
+
+/** Asks for access to the given API addresses; resolves true if all are (now) granted. */
+export async function requestHostPermission(apiBases: string[]): Promise<boolean> {
+    const origins = apiBases.map(originPattern).filter((origin): origin is string => origin !== null);
+    if (origins.length === 0) return false;
+    return chrome.permissions.request({ origins: Array.from(new Set(origins)) });
+}
+
+/** Origins granted at runtime (not listed in the manifest), for review and revoking. */
+export async function grantedOptionalOrigins(): Promise<string[]> {
+    const required = new Set(chrome.runtime.getManifest().host_permissions ?? []);
+    const { origins = [] } = await chrome.permissions.getAll();
+    return origins.filter((origin) => !required.has(origin));
+}
+
+export async function revokeHostPermission(origin: string): Promise<boolean> {
+    return chrome.permissions.remove({ origins: [origin] });
+}
@@ -0,0 +1,43 @@
+/**
+ * Supported languages: the one table behind the popup's language selects and the
+ * name ↔ ISO code mapping.
+ * Settings store user-friendly names ("Korean"), which also go into prompts; Chrome
+ * i18n detection and LibreTranslate use ISO 639-1 codes.
+ */
+
+/**
+ * Writing system a language's letters belong to, for the detection heuristics in
+ * src/background/detect.ts. "japanese" covers kana and kanji.
+ */
+export type LanguageScript = "hangul" | "japanese" | "han" | "latin" | "cyrillic" | "thai";
+
+export interface LanguageInfo {
+    name: string; // stored in settings and used in prompts
+    code: string; // ISO 639-1
+    label: string; // shown in the popup, in the language itself
+    script: LanguageScript;
+}
+
+export const LANGUAGES: readonly LanguageInfo[] = [
+    { name: "Korean", code: "ko", label: "한국어", script: "hangul" },
+    { name: "English", code: "en", label: "English", script: "latin" },
+    { name: "Japanese", code: "ja", label: "日本語", script: "japanese" },
+    { name: "Chinese (Simplified)", code: "zh", label: "中文 (简体)", script: "han" },
+    { name: "Spanish", code: "es", label: "Español", script: "latin" },
+    { name: "French", code: "fr", label: "Français", script: "latin" },
+    { name: "German", code: "de", label: "Deutsch", script: "latin" },
+    { name: "Portuguese", code: "pt", label: "Português", script: "latin" },
+    { name: "Russian", code: "ru", label: "Русский", script: "cyrillic" },
+    { name: "Vietnamese", code: "vi", label: "Tiếng Việt", script: "latin" },
+    { name: "Indonesian", code: "id", label: "Bahasa Indonesia", script: "latin" },
+    { name: "Thai", code: "th", label: "ภาษาไทย", script: "thai" },
+];
+
+export function getLanguageByName(langName: string): LanguageInfo | undefined {
+    return LANGUAGES.find((lang) => lang.name === langName);
+}
+
+/** ISO code for a settings language name; "" for "Auto" and unknown names. */
+export function getCodeForLangName(langName: string): string {
+    return getLanguageByName(langName)?.code ?? "";
+}
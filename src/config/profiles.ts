@@ -0,0 +1,196 @@
+/**
+ * Named settings profiles (e.g. local NPU, LAN GPU box, hosted endpoint).
+ *
+ * A profile holds the endpoints, model, key, languages and concurrency. The active
+ * profile's values are mirrored into the flat TranslatorSettings keys in
+ * chrome.storage.local, so the background and content scripts keep reading plain
+ * settings and never need to know about profiles.
+ */
+
+import { DEFAULT_SETTINGS, type TranslatorSettings } from "./defaults";
+
+export const PROFILES_STORAGE_KEY = "profiles";
+export const ACTIVE_PROFILE_STORAGE_KEY = "activeProfileId";
+
+/** Settings that belong to a profile; everything else stays global. */
+export const PROFILE_FIELDS = [
+    "provider",
+    "apiBase",
+    "model",
+    "apiKey",
+    "sourceLang",
+    "targetLang",
+    "outgoingTargetLang",
+    "maxConcurrentRequests",
+    "batchSize",
+    "requestTimeoutSeconds",
+    "ollamaKeepAlive",
+    "llamaCppCachePrompt",
+    "fallbackEndpoints",
+] as const satisfies ReadonlyArray<keyof TranslatorSettings>;
+
+export type ProfileField = typeof PROFILE_FIELDS[number];
+
+export interface SettingsProfile extends Pick<TranslatorSettings, ProfileField> {
+    id: string;
+    name: string;
+}
+
+export interface ProfileState {
+    profiles: SettingsProfile[];
+    activeProfileId: string;
+}
+
+function pickProfileFields(settings: Partial<TranslatorSettings>): Partial<Pick<TranslatorSettings, ProfileField>> {
+    const picked: Partial<Record<ProfileField, unknown>> = {};
+    for (const field of PROFILE_FIELDS) {
+        if (field in settings) picked[field] = settings[field];
+    }
+    return picked as Partial<Pick<TranslatorSettings, ProfileField>>;
+}
+
+function newProfileId(): string {
+    return crypto.randomUUID();
+}
+
+function storageGet<T extends Record<string, unknown>>(defaults: T): Promise<T> {
+    return new Promise((resolve) => {
+        chrome.storage.local.get(defaults, (items) => resolve(items as T));
+    });
+}
+
+function storageSet(items: Record<string, unknown>): Promise<void> {
+    return new Promise((resolve) => {
+        chrome.storage.local.set(items, () => resolve());
+    });
+}
+
+/**
+ * Loads profiles, migrating single-profile storage on first run: the current flat
+ * settings become a profile named "기본".
+ */
+export async function loadProfiles(): Promise<ProfileState> {
+    const stored = await storageGet({
+        ...DEFAULT_SETTINGS,
+        [PROFILES_STORAGE_KEY]: [] as SettingsProfile[],
+        [ACTIVE_PROFILE_STORAGE_KEY]: "",
+    });
+    const profiles = stored[PROFILES_STORAGE_KEY];
+
+    if (Array.isArray(profiles) && profiles.length > 0) {
+        const activeProfileId = profiles.some((p) => p.id === stored[ACTIVE_PROFILE_STORAGE_KEY])
+            ? stored[ACTIVE_PROFILE_STORAGE_KEY]
+            : profiles[0].id;
+        // Fill fields added after the profile was saved
+        return {
+            profiles: profiles.map((p) => ({ ...pickProfileFields(DEFAULT_SETTINGS), ...p }) as SettingsProfile),
+            activeProfileId,
+        };
+    }
+
+    const migrated: SettingsProfile = {
+        id: newProfileId(),
+        name: "기본",
+        ...(pickProfileFields(stored as TranslatorSettings) as Pick<TranslatorSettings, ProfileField>),
+    };
+    const state = { profiles: [migrated], activeProfileId: migrated.id };
+    await saveState(state);
+    console.log("[SOOP Translator] Migrated settings to profile:", migrated.name);
+    return state;
+}
+
+// Profile updates are load → modify → save of the whole list; run them one at a time
+// so two quick edits cannot both start from the same list and drop each other.
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(update: () => Promise<T>): Promise<T> {
+    const result = pendingUpdate.then(update);
+    pendingUpdate = result.catch(() => undefined);
+    return result;
+}
+
+async function saveState(state: ProfileState): Promise<void> {
+    await storageSet({
+        [PROFILES_STORAGE_KEY]: state.profiles,
+        [ACTIVE_PROFILE_STORAGE_KEY]: state.activeProfileId,
+    });
+}
+
+/** Makes `id` the active profile and copies its values into the flat settings. */
+export function activateProfile(id: string): Promise<ProfileState> {
+    return serialized(() => activate(id));
+}
+
+async function activate(id: string): Promise<ProfileState> {
+    const state = await loadProfiles();
+    const profile = state.profiles.find((p) => p.id === id);
+    if (!profile) return state;
+
+    state.activeProfileId = id;
+    await storageSet({
+        ...pickProfileFields(profile),
+        [ACTIVE_PROFILE_STORAGE_KEY]: id,
+    });
+    return state;
+}
+
+async function addProfile(state: ProfileState, fields: Pick<TranslatorSettings, ProfileField>, name: string): Promise<ProfileState> {
+    const profile: SettingsProfile = { ...fields, id: newProfileId(), name };
+    state.profiles.push(profile);
+    await saveState(state);
+    return activate(profile.id);
+}
+
+/** Creates a profile with the default settings and activates it. */
+export function createProfile(name: string): Promise<ProfileState> {
+    return serialized(async () => {
+        const state = await loadProfiles();
+        return addProfile(state, pickProfileFields(DEFAULT_SETTINGS) as Pick<TranslatorSettings, ProfileField>, name);
+    });
+}
+
+/** Creates a copy of the active profile (the first one if none is active) and activates it. */
+export function duplicateProfile(name: string): Promise<ProfileState> {
+    return serialized(async () => {
+        const state = await loadProfiles();
+        const source = state.profiles.find((p) => p.id === state.activeProfileId) ?? state.profiles[0];
+        const { id: _id, name: _name, ...fields } = source;
+        return addProfile(state, fields, name);
+    });
+}
+
+/** Deletes a profile. The last remaining profile cannot be deleted. */
+export function deleteProfile(id: string): Promise<ProfileState> {
+    return serialized(async () => {
+        const state = await loadProfiles();
+        if (state.profiles.length <= 1) return state;
+
+        state.profiles = state.profiles.filter((p) => p.id !== id);
+        await saveState(state);
+        return state.activeProfileId === id ? activate(state.profiles[0].id) : state;
+    });
+}
+
+export function renameProfile(id: string, name: string): Promise<ProfileState> {
+    return serialized(async () => {
+        const state = await loadProfiles();
+        const profile = state.profiles.find((p) => p.id === id);
+        if (profile && name.trim()) {
+            profile.name = name.trim();
+            await saveState(state);
+        }
+        return state;
+    });
+}
+
+/** Copies changed profile fields from a settings update into the active profile. */
+export function syncActiveProfile(partial: Partial<TranslatorSettings>): Promise<void> {
+    const fields = pickProfileFields(partial);
+    if (Object.keys(fields).length === 0) return Promise.resolve();
+
+    return serialized(async () => {
+        const state = await loadProfiles();
+        state.profiles = state.profiles.map((p) => (p.id === state.activeProfileId ? { ...p, ...fields } : p));
+        await saveState(state);
+    });
+}
@@ -0,0 +1,200 @@
+/**
+ * Prompt templates for LLM backends, as presets with their own sampling parameters.
+ *
+ * Stored in chrome.storage.local under `promptPresets`, separate from TranslatorSettings.
+ * A preset applies to a language pair and/or model; the most specific match wins and
+ * the built-in preset (the prompts this extension always used) covers the rest.
+ * Templates are rendered in src/api/prompt.ts.
+ */
+
+export const PROMPT_PRESETS_STORAGE_KEY = "promptPresets";
+export const BUILTIN_PRESET_ID = "builtin";
+
+/** Placeholders a template may use, with the help text shown in the popup. */
+export const PLACEHOLDERS = {
+    message: "번역할 메시지 (한 줄 템플릿)",
+    messages: "번역할 메시지 JSON 배열 (묶음 템플릿)",
+    source: "원문 언어 (자동 감지면 \"the original language\")",
+    target: "번역 언어",
+    context: "최근 채팅 (없으면 빈 문자열)",
+    glossary: "용어집 지시 (없으면 빈 문자열)",
+    examples: "사용자가 고친 번역 예시 (없으면 빈 문자열)",
+} as const;
+
+export type Placeholder = keyof typeof PLACEHOLDERS;
+
+export interface PromptPreset {
+    id: string;
+    name: string;
+    /** Language names and model this preset is for; "" matches any. */
+    sourceLang: string;
+    targetLang: string;
+    model: string;
+    system: string;
+    /** User prompt for a single line; must contain {{message}}. */
+    single: string;
+    /** User prompt for a numbered JSON array of lines; must contain {{messages}}. */
+    batch: string;
+    temperature: number;
+    topP: number;
+    /** Completion budget for one line; batches scale it. */
+    maxTokens: number;
+}
+
+export const BUILTIN_PROMPT_PRESET: PromptPreset = {
+    id: BUILTIN_PRESET_ID,
+    name: "기본",
+    sourceLang: "",
+    targetLang: "",
+    model: "",
+    system: "You are an expert live chat translator. Translate internet slang and idioms naturally into context.",
+    single: "{{context}}{{glossary}}{{examples}}" +
+        "Translate this message from {{source}} to {{target}}. Output strictly JSON: {\"translation\": \"...\"}\n" +
+        "Message: {{message}}",
+    batch: "{{context}}{{glossary}}{{examples}}" +
+        "Translate each message in this JSON array from {{source}} to {{target}}. " +
+        "Keep every id and translate each message on its own. " +
+        "Output strictly JSON: {\"translations\": [{\"id\": 1, \"translation\": \"...\"}]}\n" +
+        "Messages: {{messages}}",
+    temperature: 0.1,
+    topP: 0.95,
+    maxTokens: 128,
+};
+
+// Accepted sampling ranges; the popup's inputs use the same bounds
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+export const TOP_P_RANGE = { min: 0.01, max: 1 };
+export const MAX_TOKENS_RANGE = { min: 16, max: 1024 };
+
+export function newPresetId(): string {
+    return crypto.randomUUID();
+}
+
+export async function loadPromptPresets(): Promise<PromptPreset[]> {
+    return new Promise((resolve) => {
+        chrome.storage.local.get({ [PROMPT_PRESETS_STORAGE_KEY]: [] }, (items) => {
+            resolve(normalizePresets(items[PROMPT_PRESETS_STORAGE_KEY]));
+        });
+    });
+}
+
+export async function savePromptPresets(presets: PromptPreset[]): Promise<void> {
+    return new Promise((resolve) => {
+        chrome.storage.local.set({ [PROMPT_PRESETS_STORAGE_KEY]: normalizePresets(presets) }, () => resolve());
+    });
+}
+
+/** Drops malformed presets and the built-in one; missing fields take the built-in values. */
+export function normalizePresets(raw: unknown): PromptPreset[] {
+    if (!Array.isArray(raw)) return [];
+    const str = (value: unknown, fallback: string) => (typeof value === "string" ? value : fallback);
+    const num = (value: unknown, fallback: number) => (typeof value === "number" && Number.isFinite(value) ? value : fallback);
+    const base = BUILTIN_PROMPT_PRESET;
+    return raw
+        .filter((item) => typeof item?.id === "string" && item.id !== BUILTIN_PRESET_ID)
+        .map((item) => ({
+            id: item.id,
+            name: str(item.name, "").trim() || "프리셋",
+            sourceLang: str(item.sourceLang, ""),
+            targetLang: str(item.targetLang, ""),
+            model: str(item.model, "").trim(),
+            system: str(item.system, base.system),
+            single: str(item.single, base.single),
+            batch: str(item.batch, base.batch),
+            temperature: num(item.temperature, base.temperature),
+            topP: num(item.topP, base.topP),
+            maxTokens: Math.round(num(item.maxTokens, base.maxTokens)),
+        }));
+}
+
+/**
+ * The preset for a language pair and model: the stored preset matching the most of
+ * the three (earlier presets win ties), else the built-in one.
+ */
+export function resolvePreset(
+    presets: PromptPreset[],
+    settings: { sourceLang: string; targetLang: string; model: string }
+): PromptPreset {
+    let best = BUILTIN_PROMPT_PRESET;
+    let bestScore = -1;
+    for (const preset of presets) {
+        const fields = [
+            [preset.sourceLang, settings.sourceLang],
+            [preset.targetLang, settings.targetLang],
+            [preset.model.toLowerCase(), settings.model.toLowerCase()],
+        ];
+        if (fields.some(([wanted, actual]) => wanted !== "" && wanted !== actual)) continue;
+        const score = fields.filter(([wanted]) => wanted !== "").length;
+        if (score > bestScore) {
+            best = preset;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+/**
+ * Stable string identifying what a preset sends; used to key the cache.
+ * "" for the built-in preset, so its cache entries keep their original keys.
+ */
+export function presetFingerprint(preset: PromptPreset): string {
+    if (preset.id === BUILTIN_PRESET_ID) return "";
+    const { system, single, batch, temperature, topP, maxTokens } = preset;
+    // FNV-1a; collisions only cost a wrong cache hit between two edits of a prompt
+    let hash = 0x811c9dc5;
+    for (const ch of JSON.stringify([system, single, batch, temperature, topP, maxTokens])) {
+        hash = Math.imul(hash ^ ch.charCodeAt(0), 0x01000193);
+    }
+    return `prompt:${(hash >>> 0).toString(36)}`;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+function placeholdersIn(template: string): string[] {
+    return Array.from(template.matchAll(PLACEHOLDER_PATTERN), (m) => m[1]);
+}
+
+export function isPlaceholder(name: string): name is Placeholder {
+    return Object.prototype.hasOwnProperty.call(PLACEHOLDERS, name);
+}
+
+export interface PresetProblems {
+    errors: string[]; // the preset cannot be saved
+    warnings: string[]; // saved, but translations will likely fail
+}
+
+/** Checks a preset before saving; messages are shown in the popup. */
+export function validatePreset(preset: PromptPreset): PresetProblems {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!preset.name.trim()) errors.push("이름을 입력하세요.");
+
+    const templates: Array<[string, string]> = [["시스템", preset.system], ["한 줄", preset.single], ["묶음", preset.batch]];
+    for (const [label, template] of templates) {
+        for (const name of placeholdersIn(template)) {
+            if (!isPlaceholder(name)) errors.push(`${label} 템플릿: 알 수 없는 자리표시자 {{${name}}}`);
+        }
+    }
+    if (!placeholdersIn(preset.single).includes("message")) errors.push("한 줄 템플릿에 {{message}}가 필요합니다.");
+    if (placeholdersIn(preset.single).includes("messages")) errors.push("한 줄 템플릿에는 {{messages}}를 쓸 수 없습니다.");
+    if (!placeholdersIn(preset.batch).includes("messages")) errors.push("묶음 템플릿에 {{messages}}가 필요합니다.");
+    if (placeholdersIn(preset.batch).includes("message")) errors.push("묶음 템플릿에는 {{message}}를 쓸 수 없습니다.");
+
+    const inRange = (value: number, range: { min: number; max: number }) =>
+        Number.isFinite(value) && value >= range.min && value <= range.max;
+    if (!inRange(preset.temperature, TEMPERATURE_RANGE)) {
+        errors.push(`temperature는 ${TEMPERATURE_RANGE.min}–${TEMPERATURE_RANGE.max} 사이여야 합니다.`);
+    }
+    if (!inRange(preset.topP, TOP_P_RANGE)) errors.push(`top_p는 ${TOP_P_RANGE.min}–${TOP_P_RANGE.max} 사이여야 합니다.`);
+    if (!inRange(preset.maxTokens, MAX_TOKENS_RANGE) || !Number.isInteger(preset.maxTokens)) {
+        errors.push(`최대 토큰은 ${MAX_TOKENS_RANGE.min}–${MAX_TOKENS_RANGE.max} 사이의 정수여야 합니다.`);
+    }
+
+    // The parser reads JSON answers; other output mostly ends up rejected
+    if (!/"translation"/.test(preset.single)) warnings.push("한 줄 템플릿이 {\"translation\": ...} JSON 출력을 요청하지 않습니다.");
+    if (!/"translations"/.test(preset.batch)) warnings.push("묶음 템플릿이 {\"translations\": [...]} JSON 출력을 요청하지 않습니다.");
+    if (!placeholdersIn(preset.single + preset.batch).includes("target")) warnings.push("{{target}} 없이는 번역 언어가 전달되지 않습니다.");
+
+    return { errors, warnings };
+}
@@ -0,0 +1,47 @@
+/**
+ * Optional settings sync through chrome.storage.sync, so a change on one browser
+ * follows the user to their other browsers signed in to the same Chrome account.
+ *
+ * Only non-secret settings travel: the API key stays in this browser, fallback
+ * endpoints are synced without their keys, and the on/off switch is per browser.
+ * Everything keeps reading chrome.storage.local; the background mirrors the synced
+ * fields between the two areas (see src/background/sync.ts).
+ */
+
+import { stripApiKeys } from "./backup";
+import { DEFAULT_SETTINGS, type TranslatorSettings } from "./defaults";
+
+/** Whether this browser takes part; stored locally, never synced itself. */
+export const SETTINGS_SYNC_STORAGE_KEY = "settingsSync";
+
+const LOCAL_ONLY_FIELDS: ReadonlyArray<keyof TranslatorSettings> = ["apiKey", "enabled"];
+
+export const SYNCED_FIELDS = (Object.keys(DEFAULT_SETTINGS) as Array<keyof TranslatorSettings>)
+    .filter((field) => !LOCAL_ONLY_FIELDS.includes(field));
+
+export function isSyncedField(key: string): key is keyof TranslatorSettings {
+    return (SYNCED_FIELDS as string[]).includes(key);
+}
+
+export async function loadSyncEnabled(): Promise<boolean> {
+    return new Promise((resolve) => {
+        chrome.storage.local.get({ [SETTINGS_SYNC_STORAGE_KEY]: false }, (items) => {
+            resolve(items[SETTINGS_SYNC_STORAGE_KEY] === true);
+        });
+    });
+}
+
+export async function saveSyncEnabled(enabled: boolean): Promise<void> {
+    return new Promise((resolve) => {
+        chrome.storage.local.set({ [SETTINGS_SYNC_STORAGE_KEY]: enabled }, () => resolve());
+    });
+}
+
+/** The synced part of `settings`, as written to chrome.storage.sync. */
+export function toSyncItems(settings: Partial<TranslatorSettings>): Record<string, unknown> {
+    const items: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(stripApiKeys(settings))) {
+        if (isSyncedField(key) && value !== undefined) items[key] = value;
+    }
+    return items;
+}
@@ -0,0 +1,52 @@
+/**
+ * Identifies the SOOP channel the content script is running on.
+ *
+ * Live player URLs look like `https://play.sooplive.co.kr/<streamerId>/<broadcastNo>`.
+ * VOD players (`https://vod.sooplive.co.kr/player/<videoNo>`) have no streamer in the
+ * URL, so it is read from the page's link to the uploader's channel; those selectors
+ * are best guesses.
+ */
+
+// Hosts whose first path segment is the streamer ID
+const CHANNEL_PATH_HOSTS = /^(play|ch)\.sooplive\.co\.kr$|^(play|bj)\.afreecatv\.com$/;
+// Hosts where the streamer is only in the DOM; elsewhere a channel link may be any streamer's
+const VOD_HOSTS = /^vod\.(sooplive\.co\.kr|afreecatv\.com)$/;
+
+// Most specific first: the first selector that matches wins
+const CHANNEL_LINK_SELECTORS = [
+    ".broadcast_information a[href*='//ch.sooplive.co.kr/']",
+    ".nickname a[href*='//ch.sooplive.co.kr/']",
+    "a[href*='//ch.sooplive.co.kr/']",
+    "a[href*='//bj.afreecatv.com/']",
+];
+
+const STREAMER_ID_PATTERN = /^[a-z0-9_]+$/i;
+
+function streamerIdFromPath(pathname: string): string | undefined {
+    const [first] = pathname.split("/").filter(Boolean);
+    return first && STREAMER_ID_PATTERN.test(first) ? first.toLowerCase() : undefined;
+}
+
+/** Streamer ID from the page URL, or from the uploader link on VOD pages; undefined elsewhere. */
+export function getStreamerId(): string | undefined {
+    if (CHANNEL_PATH_HOSTS.test(location.hostname)) return streamerIdFromPath(location.pathname);
+    if (!VOD_HOSTS.test(location.hostname)) return undefined;
+    const link = CHANNEL_LINK_SELECTORS
+        .map((selector) => document.querySelector<HTMLAnchorElement>(selector))
+        .find((a) => a !== null);
+    if (!link) return undefined;
+    try {
+        return streamerIdFromPath(new URL(link.href).pathname);
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Broadcast number from a live player URL, or the video number on VOD pages
+ * (`https://vod.sooplive.co.kr/player/<videoNo>`); undefined elsewhere.
+ */
+export function getBroadcastNo(): string | undefined {
+    const [, second] = location.pathname.split("/").filter(Boolean);
+    return second && /^\d+$/.test(second) ? second : undefined;
+}
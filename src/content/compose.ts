@@ -0,0 +1,172 @@
+/**
+ * Compose helper: write a chat message in your own language, post it in the streamer's.
+ *
+ * A small panel above SOOP's chat input takes a draft, translates it through the
+ * background (reversed language pair, see `outgoing` in TranslateRequest) and shows the
+ * result in an editable preview. Accepting inserts the text into SOOP's own input;
+ * sending is left to the user and SOOP's send flow.
+ */
+
+/**
+ * SOOP chat input. `#write_area` is the contenteditable box on the live player;
+ * the textarea fallback covers other layouts. Not confirmed on every page.
+ */
+const CHAT_INPUT_SELECTOR = "#write_area, .chat_write textarea, .chatting-write textarea";
+
+const PANEL_ID = "soop-compose-panel";
+const TOGGLE_ID = "soop-compose-toggle";
+const STYLE_ID = "soop-translator-compose-style";
+
+const COMPOSE_CSS = `
+#${PANEL_ID} {
+    display: flex; flex-direction: column; gap: 4px;
+    margin: 4px 0; padding: 6px;
+    background: #1a1a2e; border: 1px solid #2a2a40; border-radius: 6px;
+    font-size: 12px; color: #e2e2f0;
+}
+#${PANEL_ID}[hidden] { display: none; }
+#${PANEL_ID} textarea {
+    width: 100%; box-sizing: border-box; resize: vertical; min-height: 36px;
+    padding: 4px 6px; font: inherit; color: inherit;
+    background: #0f0f18; border: 1px solid #2a2a40; border-radius: 4px;
+}
+#${PANEL_ID} .soop-compose-row { display: flex; gap: 4px; align-items: center; }
+#${PANEL_ID} .soop-compose-status { flex: 1; color: #888899; }
+#${PANEL_ID} button, #${TOGGLE_ID} {
+    padding: 2px 8px; font-size: 11px; cursor: pointer;
+    color: #aaaadd; background: none; border: 1px solid #555577; border-radius: 3px;
+}
+#${PANEL_ID} button:disabled { opacity: 0.5; cursor: default; }
+`;
+
+export type ComposeTranslator = (draft: string) => Promise<string>;
+
+let panel: HTMLElement | null = null;
+
+function ensureStyles() {
+    if (document.getElementById(STYLE_ID)) return;
+    const style = document.createElement("style");
+    style.id = STYLE_ID;
+    style.textContent = COMPOSE_CSS;
+    document.head.appendChild(style);
+}
+
+function findChatInput(): HTMLElement | null {
+    return document.querySelector<HTMLElement>(CHAT_INPUT_SELECTOR);
+}
+
+/**
+ * Puts `text` into SOOP's input the way typing would, so its own listeners (length
+ * counter, send button state) see the change. Nothing is sent.
+ */
+function insertIntoChatInput(input: HTMLElement, text: string) {
+    input.focus();
+    if (input instanceof HTMLTextAreaElement || input instanceof HTMLInputElement) {
+        const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(input), "value")?.set;
+        setter?.call(input, text);
+        input.dispatchEvent(new Event("input", { bubbles: true }));
+        return;
+    }
+    // contenteditable: replace the current draft through the editing pipeline
+    document.getSelection()?.selectAllChildren(input);
+    document.execCommand("insertText", false, text);
+}
+
+function buildPanel(translate: ComposeTranslator): HTMLElement {
+    const root = document.createElement("div");
+    root.id = PANEL_ID;
+    root.hidden = true;
+
+    const draft = document.createElement("textarea");
+    draft.placeholder = "Write in your language / 보낼 메시지";
+    const preview = document.createElement("textarea");
+    preview.placeholder = "Translation preview (editable) / 번역 미리보기";
+
+    const status = document.createElement("span");
+    status.className = "soop-compose-status";
+    const translateButton = document.createElement("button");
+    translateButton.type = "button";
+    translateButton.textContent = "Translate 번역";
+    const insertButton = document.createElement("button");
+    insertButton.type = "button";
+    insertButton.textContent = "Insert 입력";
+    insertButton.disabled = true;
+
+    const row = document.createElement("div");
+    row.className = "soop-compose-row";
+    row.append(status, translateButton, insertButton);
+    root.append(draft, preview, row);
+
+    const runTranslate = async () => {
+        const text = draft.value.trim();
+        if (!text) return;
+        translateButton.disabled = true;
+        status.textContent = "…";
+        try {
+            preview.value = await translate(text);
+            status.textContent = "";
+            insertButton.disabled = false;
+            preview.focus();
+        } catch (err) {
+            status.textContent = err instanceof Error ? err.message : "Translation failed";
+        } finally {
+            translateButton.disabled = false;
+        }
+    };
+
+    translateButton.addEventListener("click", runTranslate);
+    preview.addEventListener("input", () => {
+        insertButton.disabled = !preview.value.trim();
+    });
+    insertButton.addEventListener("click", () => {
+        const input = findChatInput();
+        if (!input) {
+            status.textContent = "Chat input not found / 채팅 입력창을 찾을 수 없습니다";
+            return;
+        }
+        insertIntoChatInput(input, preview.value.trim());
+        draft.value = "";
+        preview.value = "";
+        insertButton.disabled = true;
+    });
+    // Keep SOOP's page hotkeys from reacting while typing here
+    root.addEventListener("keydown", (event) => {
+        event.stopPropagation();
+        if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+            event.preventDefault();
+            if (event.target === draft) runTranslate();
+            else if (event.target === preview && !insertButton.disabled) insertButton.click();
+        }
+    });
+    return root;
+}
+
+/**
+ * Adds the toggle button and (hidden) panel next to the chat input once it exists.
+ * Safe to call repeatedly, e.g. on every DOM change.
+ */
+export function attachCompose(translate: ComposeTranslator) {
+    if (document.getElementById(TOGGLE_ID)) return;
+    const input = findChatInput();
+    const anchor = input?.parentElement;
+    if (!anchor) return;
+    ensureStyles();
+
+    panel = buildPanel(translate);
+    const toggle = document.createElement("button");
+    toggle.id = TOGGLE_ID;
+    toggle.type = "button";
+    toggle.textContent = "🌐";
+    toggle.title = "Compose in your language / 번역해서 보내기 (Alt+Shift+C)";
+    toggle.addEventListener("click", () => toggleCompose());
+
+    anchor.insertAdjacentElement("beforebegin", panel);
+    anchor.appendChild(toggle);
+}
+
+/** Shows or hides the panel, focusing the draft when shown. */
+export function toggleCompose() {
+    if (!panel) return;
+    panel.hidden = !panel.hidden;
+    if (!panel.hidden) panel.querySelector("textarea")?.focus();
+}
@@ -0,0 +1,61 @@
+/**
+ * Rolling window of recent chat lines per broadcast, sent with each TRANSLATE
+ * request so the model can resolve replies and running jokes.
+ *
+ * History is keyed by the page path (`/<streamerId>/<broadcastNo>`), so switching
+ * broadcasts in the same tab never mixes conversations.
+ */
+
+import type { ContextLine } from "../shared/messages";
+
+// Keep more than the largest window so raising the setting takes effect immediately.
+const MAX_HISTORY = 20;
+
+/**
+ * SOOP chat item (confirmed):
+ *   div.chatting-list-item
+ *     div.username > button[user_nick] > span.author   ← nickname
+ *     ... div.message-text[id] > p#message-original
+ */
+const CHAT_ITEM_SELECTOR = ".chatting-list-item";
+const USERNAME_SELECTOR = "[user_nick], .username .author, .author";
+
+const histories = new Map<string, ContextLine[]>();
+
+function broadcastKey(): string {
+    return location.pathname;
+}
+
+/** Best-effort nickname lookup for a message element; undefined if the DOM doesn't expose one. */
+export function findUsername(messageEl: Element): string | undefined {
+    const item = messageEl.closest(CHAT_ITEM_SELECTOR);
+    const el = item?.querySelector(USERNAME_SELECTOR);
+    if (!el) return undefined;
+    const name = el.getAttribute("user_nick") ?? el.textContent;
+    return name?.trim() || undefined;
+}
+
+/**
+ * Records a chat line in the current broadcast's history.
+ * Returns the stored line; set its `translation` once known so later lines see it.
+ */
+export function recordLine(line: ContextLine): ContextLine {
+    const key = broadcastKey();
+    let history = histories.get(key);
+    if (!history) {
+        history = [];
+        histories.set(key, history);
+    }
+    history.push(line);
+    if (history.length > MAX_HISTORY) history.splice(0, history.length - MAX_HISTORY);
+    return line;
+}
+
+/** Up to `size` lines recorded before `line` (oldest first), as plain copies. */
+export function contextBefore(line: ContextLine, size: number): ContextLine[] {
+    if (size <= 0) return [];
+    const history = histories.get(broadcastKey()) ?? [];
+    const index = history.indexOf(line);
+    const end = index === -1 ? history.length : index;
+    return history.slice(Math.max(0, end - size), end).map((l) => ({ ...l }));
+}
@@ -0,0 +1,129 @@
+/**
+ * Per-line controls: translate, re-translate, hide/show, copy, and correcting a
+ * translation (edit it, or report it as wrong).
+ *
+ * A small toolbar is added to every chat-like line's container and shown while the
+ * line is hovered. Lines dropped from the queue keep it visible so they can be
+ * translated on demand.
+ * Hide and copy only touch the rendered translation; translating and corrections go
+ * through the handlers given by the content script.
+ */
+
+export interface LineControlHandlers {
+    translate: (source: Element) => void;
+    retranslate: (source: Element) => void;
+    markWrong: (source: Element) => void;
+    edit: (source: Element) => void;
+}
+
+const CONTROLS_CLASS = "soop-line-controls";
+const STYLE_ID = "soop-translator-controls-style";
+
+// Attribute values match TRANSLATED_ATTR in index.ts
+const CONTROLS_CSS = `
+[data-soop-controls] { position: relative; }
+.${CONTROLS_CLASS} {
+    position: absolute; top: 0; right: 0; z-index: 1;
+    display: none; gap: 2px; padding: 1px 2px;
+    background: rgba(26, 26, 46, 0.9); border-radius: 4px;
+}
+[data-soop-controls]:hover .${CONTROLS_CLASS},
+[data-soop-controls][data-soop-translated="dropped"] .${CONTROLS_CLASS} { display: flex; }
+.${CONTROLS_CLASS} button {
+    padding: 0 4px; font-size: 11px; line-height: 16px;
+    color: #aaaadd; background: none; border: 1px solid #555577; border-radius: 3px;
+    cursor: pointer;
+}
+.${CONTROLS_CLASS} button:hover { color: #ffffff; border-color: #8888cc; }
+.${CONTROLS_CLASS} button[hidden] { display: none; }
+`;
+
+function ensureStyles() {
+    if (document.getElementById(STYLE_ID)) return;
+    const style = document.createElement("style");
+    style.id = STYLE_ID;
+    style.textContent = CONTROLS_CSS;
+    document.head.appendChild(style);
+}
+
+function translationOf(container: Element): HTMLElement | null {
+    return container.querySelector<HTMLElement>(".soop-translation");
+}
+
+function controlButton(action: string, label: string, title: string): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.dataset.action = action;
+    button.textContent = label;
+    button.title = title;
+    return button;
+}
+
+/** Adds the toolbar to a line's container once. `source` is passed to the handlers. */
+export function attachControls(source: Element, container: Element, handlers: LineControlHandlers) {
+    if (container.querySelector(`.${CONTROLS_CLASS}`)) return;
+    ensureStyles();
+
+    const controls = document.createElement("span");
+    controls.className = CONTROLS_CLASS;
+    controls.append(
+        controlButton("translate", "번역", "이 메시지 번역"),
+        controlButton("retranslate", "↻", "다시 번역 (캐시 무시)"),
+        controlButton("toggle", "숨김", "번역 숨기기/보이기"),
+        controlButton("copy", "복사", "번역 복사"),
+        controlButton("edit", "수정", "번역 직접 고치기"),
+        controlButton("wrong", "✗", "잘못된 번역으로 표시하고 다시 번역"),
+    );
+    controls.addEventListener("click", (event) => {
+        const button = (event.target as Element).closest<HTMLButtonElement>("button[data-action]");
+        if (!button) return;
+        event.stopPropagation();
+
+        const translation = translationOf(container);
+        switch (button.dataset.action) {
+            case "translate":
+                handlers.translate(source);
+                break;
+            case "retranslate":
+                handlers.retranslate(source);
+                break;
+            case "toggle":
+                if (translation) translation.hidden = !translation.hidden;
+                break;
+            case "copy":
+                if (translation?.dataset.translation) {
+                    navigator.clipboard.writeText(translation.dataset.translation).catch((err) => {
+                        console.warn("[SOOP Translator] Copy failed:", err);
+                    });
+                }
+                break;
+            case "edit":
+                handlers.edit(source);
+                break;
+            case "wrong":
+                handlers.markWrong(source);
+                break;
+        }
+        updateControls(container);
+    });
+
+    container.setAttribute("data-soop-controls", "");
+    container.appendChild(controls);
+    updateControls(container);
+}
+
+/** Shows the buttons that apply to the line's current state. */
+export function updateControls(container: Element) {
+    const controls = container.querySelector(`.${CONTROLS_CLASS}`);
+    if (!controls) return;
+    const translation = translationOf(container);
+
+    const button = (action: string) => controls.querySelector<HTMLButtonElement>(`button[data-action="${action}"]`)!;
+    button("translate").hidden = translation !== null;
+    button("retranslate").hidden = translation === null;
+    button("toggle").hidden = translation === null;
+    button("toggle").textContent = translation?.hidden ? "표시" : "숨김";
+    button("copy").hidden = translation === null;
+    button("edit").hidden = translation === null;
+    button("wrong").hidden = translation === null;
+}
@@ -0,0 +1,117 @@
+/**
+ * Inline editor for correcting a rendered translation.
+ *
+ * Opened from the line controls; replaces the translation with a text field until the
+ * user saves or cancels. Short lines (a single term) offer to become a glossary entry.
+ * Saving the correction is up to the content script.
+ */
+
+export interface CorrectionDraft {
+    translation: string;
+    addToGlossary: boolean;
+}
+
+const EDITOR_CLASS = "soop-correction-editor";
+const STYLE_ID = "soop-translator-correction-style";
+
+// Lines up to this long without spaces are offered as glossary terms by default
+const GLOSSARY_TERM_MAX_LENGTH = 12;
+
+const CORRECTION_CSS = `
+.${EDITOR_CLASS} {
+    display: flex; flex-wrap: wrap; gap: 4px; align-items: center;
+    margin: 2px 0; padding: 4px;
+    background: #1a1a2e; border: 1px solid #2a2a40; border-radius: 4px;
+    font-size: 12px; color: #e2e2f0;
+}
+.${EDITOR_CLASS} input[type="text"] {
+    flex: 1 1 100%; box-sizing: border-box; padding: 2px 6px;
+    font: inherit; color: inherit;
+    background: #0f0f18; border: 1px solid #2a2a40; border-radius: 3px;
+}
+.${EDITOR_CLASS} label { flex: 1; display: flex; gap: 4px; align-items: center; color: #888899; }
+.${EDITOR_CLASS} button {
+    padding: 0 6px; font-size: 11px; line-height: 16px; cursor: pointer;
+    color: #aaaadd; background: none; border: 1px solid #555577; border-radius: 3px;
+}
+`;
+
+function ensureStyles() {
+    if (document.getElementById(STYLE_ID)) return;
+    const style = document.createElement("style");
+    style.id = STYLE_ID;
+    style.textContent = CORRECTION_CSS;
+    document.head.appendChild(style);
+}
+
+function looksLikeTerm(text: string): boolean {
+    const trimmed = text.trim();
+    return trimmed.length <= GLOSSARY_TERM_MAX_LENGTH && !/\s/.test(trimmed);
+}
+
+/**
+ * Lets the user rewrite `translationEl`'s text. Resolves with the new translation, or
+ * null when cancelled, left unchanged or emptied. Only one editor per translation.
+ */
+export function editTranslation(translationEl: HTMLElement, original: string): Promise<CorrectionDraft | null> {
+    const open = translationEl.nextElementSibling;
+    if (open?.classList.contains(EDITOR_CLASS)) {
+        open.querySelector("input")?.focus();
+        return Promise.resolve(null);
+    }
+    ensureStyles();
+
+    const current = translationEl.dataset.translation ?? translationEl.textContent ?? "";
+    const editor = document.createElement("span");
+    editor.className = EDITOR_CLASS;
+
+    const input = document.createElement("input");
+    input.type = "text";
+    input.value = current;
+    input.placeholder = "올바른 번역";
+
+    const glossaryLabel = document.createElement("label");
+    const glossaryCheckbox = document.createElement("input");
+    glossaryCheckbox.type = "checkbox";
+    glossaryCheckbox.checked = looksLikeTerm(original);
+    glossaryLabel.append(glossaryCheckbox, "용어집에 추가");
+
+    const save = document.createElement("button");
+    save.type = "button";
+    save.textContent = "저장";
+    const cancel = document.createElement("button");
+    cancel.type = "button";
+    cancel.textContent = "취소";
+
+    editor.append(input, glossaryLabel, save, cancel);
+    // Keep SOOP's chat handlers (shortcuts, click-to-profile) out of the editor
+    for (const type of ["click", "keydown", "keyup", "keypress"]) {
+        editor.addEventListener(type, (event) => event.stopPropagation());
+    }
+
+    translationEl.hidden = true;
+    translationEl.insertAdjacentElement("afterend", editor);
+    input.focus();
+    input.select();
+
+    return new Promise((resolve) => {
+        const close = (draft: CorrectionDraft | null) => {
+            editor.remove();
+            translationEl.hidden = false;
+            resolve(draft);
+        };
+        const submit = () => {
+            const translation = input.value.trim();
+            close(translation && translation !== current
+                ? { translation, addToGlossary: glossaryCheckbox.checked }
+                : null);
+        };
+        save.addEventListener("click", submit);
+        cancel.addEventListener("click", () => close(null));
+        input.addEventListener("keydown", (event) => {
+            if (event.isComposing) return; // IME candidate selection
+            if (event.key === "Enter") submit();
+            else if (event.key === "Escape") close(null);
+        });
+    });
+}
@@ -0,0 +1,89 @@
+/**
+ * Display settings for rendered translations: mode, font size, color, prefix and
+ * reading aids.
+ *
+ * The stylesheet (display.css) is injected once; the settings are applied to <html>
+ * as `data-soop-display` and custom properties, so switching modes or colors restyles
+ * every line already on the page without touching it. Reading aids work the same way:
+ * every translation carries its annotations, and the `data-soop-romanization` and
+ * `data-soop-original` attributes decide which of them show.
+ */
+
+import type { DisplayMode } from "../config/defaults";
+import DISPLAY_CSS from "./display.css?raw";
+import { romanize } from "./romanize";
+
+export interface DisplayOptions {
+    mode: DisplayMode;
+    fontSize: number; // percent
+    color: string; // "" follows the page theme
+    prefix: string;
+    romanization: boolean;
+    original: boolean;
+}
+
+const STYLE_ID = "soop-translator-display-style";
+
+// Mirrors the display defaults in src/config/defaults.ts until storage is read
+let options: DisplayOptions = { mode: "below", fontSize: 85, color: "", prefix: "🌐 ", romanization: false, original: false };
+
+/** Quotes text as a CSS string for `content:`. */
+function cssString(text: string): string {
+    return `"${text.replace(/[\\"]/g, "\\$&").replace(/[\r\n]+/g, " ")}"`;
+}
+
+function ensureStyles() {
+    if (document.getElementById(STYLE_ID)) return;
+    const style = document.createElement("style");
+    style.id = STYLE_ID;
+    style.textContent = DISPLAY_CSS;
+    document.head.appendChild(style);
+}
+
+/** Merges `partial` into the current options and restyles the page. */
+export function applyDisplay(partial: Partial<DisplayOptions>) {
+    options = { ...options, ...partial };
+    ensureStyles();
+
+    const root = document.documentElement;
+    root.setAttribute("data-soop-display", options.mode);
+    root.style.setProperty("--soop-tr-font-size", `${options.fontSize}%`);
+    root.style.setProperty("--soop-tr-prefix", cssString(options.prefix));
+    if (options.color) {
+        root.style.setProperty("--soop-tr-color", options.color);
+    } else {
+        root.style.removeProperty("--soop-tr-color");
+    }
+    root.toggleAttribute("data-soop-romanization", options.romanization);
+    root.toggleAttribute("data-soop-original", options.original);
+}
+
+function annotation(kind: string, text: string): HTMLElement {
+    const span = document.createElement("span");
+    span.className = `soop-annotation soop-annotation--${kind}`;
+    span.textContent = text;
+    return span;
+}
+
+/**
+ * Fills a translation element: the translation, then the original's reading (from the
+ * model), its romanization and the original itself. Lines without Hangul, kana or a
+ * reading get no romanization.
+ * @param reading - hiragana reading of Japanese with kanji, when the model gave one
+ */
+export function renderTranslation(span: HTMLElement, translation: string, original: string, reading?: string) {
+    span.dataset.translation = translation; // for copying
+
+    const text = document.createElement("span");
+    text.className = "soop-translation-text";
+    text.textContent = translation;
+    // The language badge follows the translation rather than the annotations
+    if (span.dataset.sourceLang) text.dataset.sourceLang = span.dataset.sourceLang;
+
+    const parts = [text];
+    if (reading) parts.push(annotation("reading", reading));
+    const romanized = romanize(reading || original);
+    if (romanized) parts.push(annotation("romanization", romanized));
+    parts.push(annotation("original", original));
+    span.replaceChildren(...parts);
+}
@@ -0,0 +1,150 @@
+/**
+ * Evaluates the message filter rules (see src/config/filters.ts) for a chat line.
+ *
+ * Runs before a line is queued for automatic translation. The config is read from
+ * storage here because the content script cannot import the config module at runtime;
+ * fields missing from storage fall back to "rule on" / empty lists. A channel with its
+ * own rules in `channelOverrides` (see src/config/channels.ts) uses those instead of
+ * the global ones.
+ */
+
+import type { ChannelOverrides } from "../config/channels";
+import type {
+    BuiltinFilterId,
+    ChatBadge,
+    FilterRuleKey,
+    MessageFilterConfig,
+} from "../config/filters";
+import { getStreamerId } from "./channel";
+
+const FILTER_STORAGE_KEY = "messageFilter";
+const CHANNEL_OVERRIDES_STORAGE_KEY = "channelOverrides";
+
+export interface FilterInput {
+    text: string;
+    user?: string;
+    element: Element; // the p#message-original, for badge and system-notice lookups
+}
+
+/**
+ * Badge markup in a SOOP chat item. Best guesses from the chat DOM, which SOOP does
+ * not document; a badge that cannot be found simply never matches.
+ */
+const BADGE_SELECTORS: Record<ChatBadge, string> = {
+    streamer: ".grade-badge-bj, [grade='bj']",
+    manager: ".grade-badge-manager, [grade='manager']",
+    subscriber: ".grade-badge-subscribe, .thumb-subscribe, [grade='subscribe']",
+    fan: ".grade-badge-fan, .grade-badge-vip, [grade='fan'], [grade='vip']",
+};
+const CHAT_ITEM_SELECTOR = ".chatting-list-item";
+const SYSTEM_NOTICE_SELECTOR = ".notice, .system, [class*='notice'], [class*='system']";
+
+const REPEATED_RE = /^(.{1,3}?)\1{2,}$/su;
+const EMOTICON_ONLY_RE = /^[\p{Extended_Pictographic}\p{Emoji_Modifier}\p{Regional_Indicator}\u200d\ufe0f\u20e3\p{P}\p{S}\s]+$/u;
+const URL_RE = /(?:https?:\/\/|www\.)\S+/gi;
+const NUMBER_ONLY_RE = /^[\d\s.,:;+\-*/%()~]+$/;
+const COMMAND_RE = /^!\S/;
+
+const BUILTIN_RULES: Record<BuiltinFilterId, (line: FilterInput, config: MessageFilterConfig) => boolean> = {
+    repeated: ({ text }) => REPEATED_RE.test(text.replace(/\s+/g, "")),
+    emoticon: ({ text }) => EMOTICON_ONLY_RE.test(text),
+    url: ({ text }) => {
+        const rest = text.replace(URL_RE, "");
+        return rest !== text && rest.trim().length < 2;
+    },
+    number: ({ text }) => NUMBER_ONLY_RE.test(text),
+    bot: ({ user, element }, config) => {
+        if (user && config.botNames.some((name) => name.toLowerCase() === user.toLowerCase())) return true;
+        return element.closest(CHAT_ITEM_SELECTOR)?.matches(SYSTEM_NOTICE_SELECTOR) ?? false;
+    },
+    command: ({ text }) => COMMAND_RE.test(text),
+};
+
+let config: MessageFilterConfig = {
+    builtins: {},
+    botNames: [],
+    patterns: [],
+    denyUsers: [],
+    allowUsers: [],
+    badges: [],
+};
+let globalConfig: Partial<MessageFilterConfig> | undefined;
+let channelConfig: Partial<MessageFilterConfig> | undefined;
+let patterns: Array<{ key: FilterRuleKey; re: RegExp }> = [];
+const skipCounts = new Map<FilterRuleKey, number>();
+
+function applyConfig(raw: Partial<MessageFilterConfig> | undefined) {
+    config = {
+        builtins: raw?.builtins ?? {},
+        botNames: raw?.botNames ?? ["싹둑", "ssakdook", "nightbot"],
+        patterns: raw?.patterns ?? [],
+        denyUsers: raw?.denyUsers ?? [],
+        allowUsers: raw?.allowUsers ?? [],
+        badges: raw?.badges ?? [],
+    };
+    patterns = [];
+    for (const pattern of config.patterns) {
+        try {
+            patterns.push({ key: `pattern:${pattern}`, re: new RegExp(pattern, "iu") });
+        } catch (err) {
+            console.warn("[SOOP Translator] Ignoring invalid filter pattern:", pattern);
+        }
+    }
+}
+
+/** Picks this channel's own rules, if any, from the `channelOverrides` table. */
+function readChannelConfig(overrides: ChannelOverrides | undefined) {
+    const streamerId = getStreamerId();
+    channelConfig = streamerId ? overrides?.[streamerId]?.messageFilter : undefined;
+}
+
+chrome.storage.local.get([FILTER_STORAGE_KEY, CHANNEL_OVERRIDES_STORAGE_KEY], (items) => {
+    globalConfig = items[FILTER_STORAGE_KEY];
+    readChannelConfig(items[CHANNEL_OVERRIDES_STORAGE_KEY]);
+    applyConfig(channelConfig ?? globalConfig);
+});
+chrome.storage.onChanged.addListener((changes, area) => {
+    if (area !== "local") return;
+    if (changes[FILTER_STORAGE_KEY]) globalConfig = changes[FILTER_STORAGE_KEY].newValue;
+    if (changes[CHANNEL_OVERRIDES_STORAGE_KEY]) readChannelConfig(changes[CHANNEL_OVERRIDES_STORAGE_KEY].newValue);
+    if (changes[FILTER_STORAGE_KEY] || changes[CHANNEL_OVERRIDES_STORAGE_KEY]) applyConfig(channelConfig ?? globalConfig);
+});
+
+function sameUser(list: string[], user: string | undefined): boolean {
+    if (!user) return false;
+    const lower = user.toLowerCase();
+    return list.some((name) => name.toLowerCase() === lower);
+}
+
+function hasBadge(element: Element, badges: ChatBadge[]): boolean {
+    const item = element.closest(CHAT_ITEM_SELECTOR);
+    return !!item && badges.some((badge) => item.querySelector(BADGE_SELECTORS[badge]) !== null);
+}
+
+/** The first rule that skips the line, or null if it should be translated. */
+function firstSkippingRule(line: FilterInput): FilterRuleKey | null {
+    if (config.allowUsers.length > 0 && !sameUser(config.allowUsers, line.user)) return "allowUser";
+    if (sameUser(config.denyUsers, line.user)) return "denyUser";
+    if (config.badges.length > 0 && !hasBadge(line.element, config.badges)) return "badge";
+
+    for (const [id, rule] of Object.entries(BUILTIN_RULES) as Array<[BuiltinFilterId, typeof BUILTIN_RULES[BuiltinFilterId]]>) {
+        if (config.builtins[id] !== false && rule(line, config)) return id;
+    }
+    for (const { key, re } of patterns) {
+        if (re.test(line.text)) return key;
+    }
+    return null;
+}
+
+/** Whether a line should be skipped; counts the skip against the rule that matched. */
+export function isFiltered(line: FilterInput): boolean {
+    const rule = firstSkippingRule(line);
+    if (rule === null) return false;
+    skipCounts.set(rule, (skipCounts.get(rule) ?? 0) + 1);
+    return true;
+}
+
+/** Skips per rule in this tab since it was opened. */
+export function filterSkipCounts(): Partial<Record<FilterRuleKey, number>> {
+    return Object.fromEntries(skipCounts);
+}
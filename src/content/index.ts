@@ -1,68 +1,218 @@
 /**
  * Content script injected into SOOP live chat pages.
- * Observes new chat messages and appends inline translations.
+ * Observes new chat messages (and the other page parts in targets.ts) and appends
+ * inline translations.
+ * Depending on the translate mode, lines are translated as they arrive or only on
+ * demand (hover, per-line controls, keyboard shortcut).
+ *
+ * Only `import type` from outside src/content: this runs as a classic script
+ * and cannot load shared chunks.
  */
 
-interface TranslateRequest {
-    type: "TRANSLATE";
-    text: string;
+import type { ChannelOverride, ChannelOverrides } from "../config/channels";
+import type { QueueDropPolicy, TargetCategory, TranslateMode } from "../config/defaults";
+import type {
+    CancelRequest,
+    ChannelInfoResponse,
+    ContentRequest,
+    ContextLine,
+    CorrectionRequest,
+    CorrectionResponse,
+    FilterStatsResponse,
+    QueueStatsReport,
+    StreamCancelRequest,
+    StreamPortMessage,
+    StreamPortName,
+    StreamTranslateRequest,
+    TabVisibility,
+    TranslateRequest,
+    TranslateResponse,
+    TranscriptLine,
+} from "../shared/messages";
+import { getBroadcastNo, getStreamerId } from "./channel";
+import { attachCompose, toggleCompose } from "./compose";
+import { contextBefore, findUsername, recordLine } from "./context";
+import { attachControls, updateControls } from "./controls";
+import { editTranslation } from "./correction";
+import { applyDisplay, renderTranslation } from "./display";
+import { filterSkipCounts, isFiltered } from "./filter";
+import { cancelDetached, configureQueue, enqueueLine, onQueueChange } from "./queue";
+import { activeTargets, type DomTarget } from "./targets";
+import { currentStreamTime, newTranscriptLineId, recordTranscript } from "./transcript";
+
+// The background batches lines and limits concurrent *batches* across all tabs,
+// adapting to server load up to maxConcurrentRequests; we keep enough lines in
+// flight to fill every batch slot it may open.
+let currentMaxConcurrent = 3;
+let currentBatchSize = 8;
+let streamingEnabled = false;
+let contextWindowSize = 3;
+let translateMode: TranslateMode = "all";
+let translateFilter: RegExp | null = null;
+// Global mode and filter; this channel's override (if any) wins over them
+let settingsTranslateMode: TranslateMode = "all";
+let settingsTranslateFilter = "";
+let channelOverride: ChannelOverride = {};
+let shortcutLineCount = 5;
+// Mirrors DEFAULT_TRANSLATE_TARGETS until storage is read
+let currentTargets: DomTarget[] = activeTargets(new Set<TargetCategory>(["chat", "donation", "notice", "title", "replay"]));
+
+/** An invalid pattern matches nothing rather than everything. */
+function compileFilter(pattern: string | undefined): RegExp | null {
+    if (!pattern) return null;
+    try {
+        return new RegExp(pattern, "i");
+    } catch (err) {
+        console.warn("[SOOP Translator] Invalid translate filter:", pattern);
+        return null;
+    }
 }
 
-interface TranslateResponse {
-    success: boolean;
-    result?: string;
-    error?: string;
-    cached?: boolean;
-    skipped?: boolean;
+function applyTranslateMode() {
+    translateMode = channelOverride.translateMode ?? settingsTranslateMode;
+    translateFilter = compileFilter(channelOverride.translateFilter ?? settingsTranslateFilter);
 }
 
-// Global reference for MAX_CONCURRENT so the queue can adapt dynamically
-let currentMaxConcurrent = 3;
+/** Picks this channel's entry from the `channelOverrides` table (see src/config/channels.ts). */
+function readChannelOverride(overrides: ChannelOverrides | undefined) {
+    const streamerId = getStreamerId();
+    channelOverride = (streamerId && overrides?.[streamerId]) || {};
+}
+
+function updateQueueLimits() {
+    configureQueue({ maxInFlight: currentMaxConcurrent * Math.max(1, currentBatchSize) });
+}
 
 // Keep track of settings updates
 chrome.storage.onChanged.addListener((changes) => {
     if (changes.maxConcurrentRequests) {
         currentMaxConcurrent = changes.maxConcurrentRequests.newValue || 3;
-        processQueue(); // Maybe we can run more now
+    }
+    if (changes.batchSize) {
+        currentBatchSize = changes.batchSize.newValue || 1;
+    }
+    if (changes.streaming) {
+        streamingEnabled = !!changes.streaming.newValue;
+    }
+    if (changes.contextWindowSize) {
+        contextWindowSize = changes.contextWindowSize.newValue ?? 0;
+    }
+    if (changes.maxConcurrentRequests || changes.batchSize) {
+        updateQueueLimits();
+    }
+    if (changes.queueMaxLength) {
+        configureQueue({ maxLength: changes.queueMaxLength.newValue || 1 });
+    }
+    if (changes.queueMaxAgeSeconds) {
+        configureQueue({ maxAgeMs: (changes.queueMaxAgeSeconds.newValue || 1) * 1000 });
+    }
+    if (changes.queueDropPolicy) {
+        configureQueue({ policy: changes.queueDropPolicy.newValue as QueueDropPolicy });
+    }
+    if (changes.translateMode) {
+        settingsTranslateMode = changes.translateMode.newValue || "all";
+    }
+    if (changes.translateFilter) {
+        settingsTranslateFilter = changes.translateFilter.newValue ?? "";
+    }
+    if (changes.channelOverrides) {
+        readChannelOverride(changes.channelOverrides.newValue);
+    }
+    if (changes.translateMode || changes.translateFilter || changes.channelOverrides) {
+        applyTranslateMode();
+    }
+    if (changes.shortcutLineCount) {
+        shortcutLineCount = changes.shortcutLineCount.newValue || 1;
+    }
+    if (changes.displayMode) {
+        applyDisplay({ mode: changes.displayMode.newValue || "below" });
+    }
+    if (changes.translationFontSize) {
+        applyDisplay({ fontSize: changes.translationFontSize.newValue || 85 });
+    }
+    if (changes.translationColor) {
+        applyDisplay({ color: changes.translationColor.newValue ?? "" });
+    }
+    if (changes.translationPrefix) {
+        applyDisplay({ prefix: changes.translationPrefix.newValue ?? "" });
+    }
+    if (changes.showRomanization) {
+        applyDisplay({ romanization: !!changes.showRomanization.newValue });
+    }
+    if (changes.showOriginal) {
+        applyDisplay({ original: !!changes.showOriginal.newValue });
+    }
+    if (changes.translateTargets) {
+        currentTargets = activeTargets(new Set(changes.translateTargets.newValue ?? []));
+        if (observing) scan(document); // pick up categories just switched on
     }
 });
-chrome.storage.local.get("maxConcurrentRequests", (res) => {
-    if (res.maxConcurrentRequests) currentMaxConcurrent = res.maxConcurrentRequests;
-});
+// The observer starts once these are known, so the first scan already follows the
+// user's translate mode and targets.
+const settingsLoaded = new Promise<void>((resolve) => chrome.storage.local.get(
+    [
+        "maxConcurrentRequests", "batchSize", "streaming", "contextWindowSize",
+        "queueMaxLength", "queueMaxAgeSeconds", "queueDropPolicy",
+        "translateMode", "translateFilter", "channelOverrides", "shortcutLineCount", "translateTargets",
+        "displayMode", "translationFontSize", "translationColor", "translationPrefix",
+        "showRomanization", "showOriginal",
+    ],
+    (res) => {
+        if (res.maxConcurrentRequests) currentMaxConcurrent = res.maxConcurrentRequests;
+        if (res.batchSize) currentBatchSize = res.batchSize;
+        streamingEnabled = !!res.streaming;
+        if (typeof res.contextWindowSize === "number") contextWindowSize = res.contextWindowSize;
+        updateQueueLimits();
+        if (res.queueMaxLength) configureQueue({ maxLength: res.queueMaxLength });
+        if (res.queueMaxAgeSeconds) configureQueue({ maxAgeMs: res.queueMaxAgeSeconds * 1000 });
+        if (res.queueDropPolicy) configureQueue({ policy: res.queueDropPolicy });
+        if (res.translateMode) settingsTranslateMode = res.translateMode;
+        if (typeof res.translateFilter === "string") settingsTranslateFilter = res.translateFilter;
+        readChannelOverride(res.channelOverrides);
+        applyTranslateMode();
+        if (res.shortcutLineCount) shortcutLineCount = res.shortcutLineCount;
+        if (Array.isArray(res.translateTargets)) currentTargets = activeTargets(new Set(res.translateTargets));
+        applyDisplay({
+            ...(res.displayMode && { mode: res.displayMode }),
+            ...(res.translationFontSize && { fontSize: res.translationFontSize }),
+            ...(typeof res.translationColor === "string" && { color: res.translationColor }),
+            ...(typeof res.translationPrefix === "string" && { prefix: res.translationPrefix }),
+            romanization: !!res.showRomanization,
+            original: !!res.showOriginal,
+        });
+        resolve();
+    }
+));
 
-// Translated message attribute to avoid re-translating
+// Translated message attribute to avoid re-translating.
+// "pending" while queued or in flight, "done" once translated or skipped,
+// "dropped" when dropped from the queue (translatable on demand).
 const TRANSLATED_ATTR = "data-soop-translated";
 
-// Queue for translation requests
-let translationQueue: Array<() => void> = [];
-let inFlightCount = 0;
-
-async function processQueue() {
-    // Keep pulling from queue as long as we have limit to spare
-    while (translationQueue.length > 0 && inFlightCount < currentMaxConcurrent) {
-        const task = translationQueue.shift();
-        if (task) {
-            inFlightCount++;
-            task(); // Task is responsible for decrementing inFlightCount and calling processQueue()
-        }
-    }
+/** Sent with each request so the background can serve the tab being watched first. */
+function tabVisibility(): TabVisibility {
+    if (document.visibilityState === "hidden") return "hidden";
+    return document.hasFocus() ? "focused" : "visible";
 }
 
-function enqueue(fn: () => void) {
-    translationQueue.push(fn);
-    processQueue();
+// Shared by one-shot and streamed requests, so either kind can be cancelled by id
+let nextRequestId = 1;
+
+interface Translation {
+    text: string;
+    detectedLang?: string; // ISO code of the original, as detected by the background
+    reading?: string; // hiragana reading of Japanese with kanji, with `kanjiReadings` on
 }
 
-function sendTranslationRequest(text: string): Promise<string> {
+function sendTranslationRequest(request: TranslateRequest): Promise<Translation> {
     return new Promise((resolve, reject) => {
-        const request: TranslateRequest = { type: "TRANSLATE", text };
         chrome.runtime.sendMessage(request, (response: TranslateResponse) => {
             if (chrome.runtime.lastError) {
                 reject(new Error(chrome.runtime.lastError.message));
                 return;
             }
             if (response.success && response.result) {
-                resolve(response.result);
+                resolve({ text: response.result, detectedLang: response.detectedLang, reading: response.reading });
             } else {
                 reject(new Error(response.error ?? "Unknown error"));
             }
@@ -70,104 +220,419 @@ function sendTranslationRequest(text: string): Promise<string> {
     });
 }
 
+/** Tells the background a line is no longer needed; its pending request then fails. */
+function cancelRequest(requestId: number) {
+    if (pendingStreams.has(requestId)) {
+        const cancel: StreamCancelRequest = { type: "CANCEL", id: requestId };
+        streamPort?.postMessage(cancel);
+        return;
+    }
+    const cancel: CancelRequest = { type: "CANCEL", requestId };
+    chrome.runtime.sendMessage(cancel, () => void chrome.runtime.lastError); // no response expected
+}
+
+// --- Streaming port ---
+// One long-lived port per tab; requests are multiplexed by id. The port is
+// reopened lazily after the service worker is suspended.
+const STREAM_PORT_NAME: StreamPortName = "soop-translate-stream";
+
+interface PendingStream {
+    onPartial: (partial: string) => void;
+    resolve: (result: Translation) => void;
+    reject: (err: Error) => void;
+}
+
+let streamPort: chrome.runtime.Port | null = null;
+const pendingStreams = new Map<number, PendingStream>();
+
+function getStreamPort(): chrome.runtime.Port {
+    if (streamPort) return streamPort;
+
+    const port = chrome.runtime.connect({ name: STREAM_PORT_NAME });
+    port.onMessage.addListener((message: StreamPortMessage) => {
+        const pending = pendingStreams.get(message.id);
+        if (!pending) return;
+
+        if (message.type === "PARTIAL") {
+            pending.onPartial(message.text);
+            return;
+        }
+
+        pendingStreams.delete(message.id);
+        if (message.success && message.result) {
+            pending.resolve({ text: message.result, detectedLang: message.detectedLang, reading: message.reading });
+        } else {
+            pending.reject(new Error(message.error ?? "Unknown error"));
+        }
+    });
+    port.onDisconnect.addListener(() => {
+        streamPort = null;
+        const error = new Error(chrome.runtime.lastError?.message ?? "Stream port disconnected");
+        for (const pending of pendingStreams.values()) pending.reject(error);
+        pendingStreams.clear();
+    });
+
+    streamPort = port;
+    return port;
+}
+
+function sendStreamingRequest(
+    id: number,
+    request: TranslateRequest,
+    onPartial: (partial: string) => void
+): Promise<Translation> {
+    return new Promise((resolve, reject) => {
+        pendingStreams.set(id, { onPartial, resolve, reject });
+        const streamRequest: StreamTranslateRequest = { ...request, id };
+        try {
+            getStreamPort().postMessage(streamRequest);
+        } catch (err) {
+            pendingStreams.delete(id);
+            reject(err instanceof Error ? err : new Error("Stream port unavailable"));
+        }
+    });
+}
+
+// --- Queue metrics ---
+// Reported to the background for the popup's metrics panel, at most once a second.
+const QUEUE_REPORT_INTERVAL_MS = 1000;
+let queueReport: QueueStatsReport | null = null;
+let queueReportTimer: ReturnType<typeof setTimeout> | null = null;
+
+onQueueChange((queued, inFlight) => {
+    if (queueReport?.queued === queued && queueReport.inFlight === inFlight) return;
+    queueReport = { type: "QUEUE_STATS", queued, inFlight };
+    if (queueReportTimer !== null) return;
+    queueReportTimer = setTimeout(() => {
+        queueReportTimer = null;
+        chrome.runtime.sendMessage(queueReport, () => void chrome.runtime.lastError); // no response expected
+    }, QUEUE_REPORT_INTERVAL_MS);
+});
+
+// --- Tracked elements ---
+// Every element claimed by a target in targets.ts, with the line it was read as.
+interface TrackedElement {
+    target: DomTarget;
+    container: Element;
+    line: ContextLine; // chat-like lines are also entries in the context history
+    transcript?: TranscriptLine; // chat-like lines, for the transcript recorder
+    reading?: string; // of the original, kept for re-rendering after an edit
+}
+
+const tracked = new WeakMap<Element, TrackedElement>();
+// Container → source element, for hover and the shortcut, which start from containers
+const sourceOf = new WeakMap<Element, Element>();
+
 /**
- * Appends (or replaces) the translation result below the original message p element.
- * @param originalP  - the `p#message-original` element
+ * Appends (or updates) the translation of a tracked element, placed per its target's
+ * render strategy. How it looks (mode, size, color, prefix, which reading aids show)
+ * is up to display.css.
+ * @param source - the element whose text was translated
  * @param translatedText - the translated string
+ * @param detectedLang - ISO code of the original, shown after the translation once known
  */
-function appendTranslation(originalP: Element, translatedText: string) {
-    const existing = originalP.parentElement?.querySelector(".soop-translation");
-    if (existing) existing.remove();
+function appendTranslation(source: Element, translatedText: string, detectedLang?: string) {
+    const entry = tracked.get(source);
+    if (!entry) return;
+    const existing = entry.container.querySelector<HTMLElement>(".soop-translation");
+    if (existing) {
+        // Update in place so streamed tokens don't cause the line to flicker
+        setSourceLang(existing, detectedLang);
+        renderTranslation(existing, translatedText, entry.line.text, entry.reading);
+        return;
+    }
 
     const span = document.createElement("span");
-    span.className = "soop-translation";
-    span.textContent = `🌐 ${translatedText}`;
-    span.style.cssText = [
-        "display: block",
-        "font-size: 0.85em",
-        "color: #aaaadd",
-        "margin-top: 2px",
-        "word-break: break-word",
-        "user-select: text",
-    ].join(";");
-    // Insert right after the original p tag
-    originalP.insertAdjacentElement("afterend", span);
+    setSourceLang(span, detectedLang);
+    renderTranslation(span, translatedText, entry.line.text, entry.reading);
+    if (entry.target.render === "inline") {
+        span.className = "soop-translation soop-translation--inline";
+        source.appendChild(span);
+    } else {
+        // The display modes style the original and its translation as siblings
+        span.className = "soop-translation soop-translation--block";
+        entry.container.setAttribute("data-soop-container", "");
+        source.setAttribute("data-soop-source", "");
+        source.insertAdjacentElement("afterend", span);
+    }
+    updateControls(entry.container);
+}
+
+let languageNames: Intl.DisplayNames | null = null;
+
+function setSourceLang(span: HTMLElement, detectedLang: string | undefined) {
+    if (!detectedLang || span.dataset.sourceLang === detectedLang) return;
+    span.dataset.sourceLang = detectedLang;
+    try {
+        if (!languageNames) languageNames = new Intl.DisplayNames([navigator.language], { type: "language" });
+        span.title = `원문: ${languageNames.of(detectedLang) ?? detectedLang}`;
+    } catch (err) {
+        span.title = `원문: ${detectedLang}`;
+    }
+}
+
+function removeTranslation(source: Element) {
+    const entry = tracked.get(source);
+    if (!entry) return;
+    entry.container.querySelector(".soop-translation")?.remove();
+    updateControls(entry.container);
+}
+
+/** Marks a line dropped from the queue; its controls stay visible for translating on demand. */
+function markDropped(source: Element) {
+    const entry = tracked.get(source);
+    if (!entry || !source.isConnected) return;
+    entry.container.setAttribute(TRANSLATED_ATTR, "dropped");
+    removeTranslation(source);
+}
+
+interface TranslateMessageOptions {
+    onDemand?: boolean; // requested by the user: jumps the queue, also for dropped lines
+    refresh?: boolean; // re-translate a finished line, bypassing the cache
 }
 
 /**
- * Translates a `p#message-original` element.
- * The TRANSLATED_ATTR is set on the parent `.message-text` container
+ * Translates a tracked element.
+ * The TRANSLATED_ATTR is set on the target's container
  * so we never process the same message twice.
  */
-async function translateMessage(originalP: Element) {
-    const container = originalP.parentElement;
-    if (!container) return;
-    if (container.getAttribute(TRANSLATED_ATTR) === "true") return;
-    container.setAttribute(TRANSLATED_ATTR, "true");
-
-    const clone = originalP.cloneNode(true) as Element;
-    clone.querySelectorAll("button, [id='btn-translate']").forEach(el => el.remove());
+function translateMessage(source: Element, { onDemand = false, refresh = false }: TranslateMessageOptions = {}) {
+    const entry = tracked.get(source);
+    if (!entry) return;
+    const { container, line, target } = entry;
+    const state = container.getAttribute(TRANSLATED_ATTR);
+    if (state === "pending") return;
+    if (state === "done" && !refresh) return;
+    if (state === "dropped" && !onDemand) return;
+    container.setAttribute(TRANSLATED_ATTR, "pending");
 
-    let textContent = clone.textContent?.trim() || "";
-    if (textContent.endsWith("번역")) {
-        textContent = textContent.replace(/번역$/, "").trim();
-    }
-    if (!textContent || textContent.length < 2) return;
+    const requestId = nextRequestId++;
+    let cancelled = false;
 
-    return new Promise<void>((resolve) => {
-        enqueue(async () => {
+    enqueueLine({
+        element: source,
+        run: async () => {
             try {
-                const translated = await sendTranslationRequest(textContent);
-                if (translated && translated !== textContent) {
-                    appendTranslation(originalP, translated);
+                const request: TranslateRequest = {
+                    type: "TRANSLATE",
+                    text: line.text,
+                    // Taken when the request is sent, so it includes translations finished meanwhile
+                    context: target.chatLike ? contextBefore(line, contextWindowSize) : [],
+                    streamerId: getStreamerId(),
+                    broadcastNo: getBroadcastNo(),
+                    requestId,
+                    refresh,
+                    visibility: tabVisibility(),
+                };
+                const translated = streamingEnabled
+                    ? await sendStreamingRequest(requestId, request, (partial) => appendTranslation(source, partial))
+                    : await sendTranslationRequest(request);
+                if (cancelled) return;
+                container.setAttribute(TRANSLATED_ATTR, "done");
+                if (translated.text && translated.text !== line.text) {
+                    line.translation = translated.text;
+                    entry.reading = translated.reading;
+                    appendTranslation(source, translated.text, translated.detectedLang);
+                } else {
+                    removeTranslation(source); // drop any partial text for skipped lines
                 }
+                recordTranslated(entry, translated.detectedLang);
             } catch (err) {
+                if (cancelled) return;
                 console.warn("[SOOP Translator] Failed to translate:", err);
+                removeTranslation(source);
                 container.removeAttribute(TRANSLATED_ATTR);
-            } finally {
-                inFlightCount--;
-                processQueue();
-                resolve();
             }
+        },
+        cancel: () => {
+            cancelled = true;
+            cancelRequest(requestId);
+        },
+        drop: () => markDropped(source),
+    }, onDemand);
+}
+
+/** Updates the line's transcript record with its current translation. */
+function recordTranslated(entry: TrackedElement, detectedLang?: string) {
+    if (!entry.transcript) return;
+    entry.transcript = {
+        ...entry.transcript,
+        translation: entry.line.translation,
+        detectedLang: detectedLang ?? entry.transcript.detectedLang,
+    };
+    recordTranscript(entry.transcript);
+}
+
+// --- Corrections ---
+// The background stores them and replaces the cached translation (see CorrectionRequest).
+
+function sendCorrection(request: CorrectionRequest): Promise<void> {
+    return new Promise((resolve) => {
+        chrome.runtime.sendMessage(request, (response: CorrectionResponse) => {
+            if (chrome.runtime.lastError || !response?.success) {
+                console.warn("[SOOP Translator] Failed to save correction:", chrome.runtime.lastError?.message ?? response?.error);
+            }
+            resolve();
         });
     });
 }
 
+/** Reports the translation as wrong, then translates the line again once that is stored. */
+async function markWrong(source: Element) {
+    const entry = tracked.get(source);
+    if (!entry?.line.translation) return;
+    await sendCorrection({
+        type: "CORRECTION",
+        text: entry.line.text,
+        rejected: entry.line.translation,
+        streamerId: getStreamerId(),
+    });
+    translateMessage(source, { onDemand: true, refresh: true });
+}
+
+/** Opens the inline editor; a saved edit is shown right away and stored as a correction. */
+async function editLine(source: Element) {
+    const entry = tracked.get(source);
+    const span = entry?.container.querySelector<HTMLElement>(".soop-translation");
+    if (!entry || !span) return;
+    const draft = await editTranslation(span, entry.line.text);
+    if (!draft || !source.isConnected) return;
+
+    const rejected = entry.line.translation;
+    entry.line.translation = draft.translation;
+    appendTranslation(source, draft.translation);
+    recordTranslated(entry);
+    await sendCorrection({
+        type: "CORRECTION",
+        text: entry.line.text,
+        translation: draft.translation,
+        rejected,
+        streamerId: getStreamerId(),
+        addToGlossary: draft.addToGlossary,
+    });
+}
+
+const lineControlHandlers = {
+    translate: (source: Element) => translateMessage(source, { onDemand: true }),
+    retranslate: (source: Element) => translateMessage(source, { onDemand: true, refresh: true }),
+    markWrong: (source: Element) => void markWrong(source),
+    edit: (source: Element) => void editLine(source),
+};
+
+function shouldAutoTranslate(line: ContextLine): boolean {
+    switch (translateMode) {
+        case "all":
+            return true;
+        case "filtered":
+            return translateFilter !== null &&
+                (translateFilter.test(line.text) || (line.user !== undefined && translateFilter.test(line.user)));
+        case "hover":
+            return false;
+    }
+}
+
 /**
- * SOOP DOM structure (confirmed):
- *   div.message-text[id="<numeric-id>"]   ← message container
- *     p#message-original                  ← chat message text
- *
- * We query for `p#message-original` inside `.message-text[id]` containers.
+ * First sighting of an element claimed by `target`. Chat-like lines are recorded for
+ * context (and the transcript, when recording), get controls, and are translated if
+ * the mode asks for it and no filter rule skips them; other targets are always translated.
  */
-const MESSAGE_ORIGINAL_SELECTOR = ".message-text[id] p#message-original";
+function handleNewElement(source: Element, target: DomTarget) {
+    if (tracked.has(source)) return;
+    const container = target.container(source);
+    if (!container) return;
+
+    const text = target.extract(source);
+    if (!text || text.length < 2) return;
+
+    if (!target.chatLike) {
+        tracked.set(source, { target, container, line: { text } });
+        translateMessage(source);
+        return;
+    }
 
-function findChatMessages(root: Element | Document): Element[] {
-    return Array.from(root.querySelectorAll(MESSAGE_ORIGINAL_SELECTOR));
+    const line = recordLine({ user: findUsername(source), text });
+    const transcript: TranscriptLine = {
+        lineId: newTranscriptLineId(),
+        at: Date.now(),
+        streamTime: currentStreamTime(),
+        messageId: /^\d+$/.test(container.id) ? container.id : undefined,
+        user: line.user,
+        original: text,
+    };
+    tracked.set(source, { target, container, line, transcript });
+    recordTranscript(transcript);
+    sourceOf.set(container, source);
+    attachControls(source, container, lineControlHandlers);
+    if (shouldAutoTranslate(line) && !isFiltered({ text, user: line.user, element: source })) {
+        translateMessage(source);
+    }
 }
 
+/** An element whose text changed in place (e.g. a new broadcast title) is read again. */
+function handleTextChange(node: Node) {
+    const el = node instanceof Element ? node : node.parentElement;
+    if (!el || el.closest(".soop-translation")) return;
+
+    for (const target of currentTargets) {
+        if (!target.watchText) continue;
+        const source = el.closest(target.selector);
+        const entry = source && tracked.get(source);
+        if (!source || !entry || target.extract(source) === entry.line.text) continue;
+
+        removeTranslation(source);
+        entry.container.removeAttribute(TRANSLATED_ATTR);
+        tracked.delete(source);
+        handleNewElement(source, target);
+    }
+}
+
+function scan(root: Element | Document) {
+    for (const target of currentTargets) {
+        if (root instanceof Element && root.matches(target.selector)) {
+            handleNewElement(root, target);
+        }
+        for (const el of root.querySelectorAll(target.selector)) {
+            handleNewElement(el, target);
+        }
+    }
+}
+
+/** Compose helper drafts skip the queue: the user is waiting on them. */
+function translateDraft(draft: string): Promise<string> {
+    return sendTranslationRequest({
+        type: "TRANSLATE",
+        text: draft,
+        streamerId: getStreamerId(),
+        broadcastNo: getBroadcastNo(),
+        outgoing: true,
+        visibility: tabVisibility(),
+    })
+        .then((translation) => translation.text);
+}
+
+let observing = false;
+
 function observeChat() {
+    observing = true;
     const observer = new MutationObserver((mutations) => {
-        for (const mutation of mutations) {
-            for (const node of mutation.addedNodes) {
-                if (!(node instanceof Element)) continue;
-
-                // Case 1: added node is p#message-original directly
-                if (node.matches("p#message-original")) {
-                    translateMessage(node);
-                    continue;
-                }
+        // SOOP trims old chat lines; stop waiting for translations nobody will see
+        if (mutations.some((mutation) => mutation.removedNodes.length > 0)) {
+            cancelDetached();
+        }
 
-                // Case 2: added node is .message-text container (contains p#message-original)
-                const found = node.querySelector("p#message-original");
-                if (found) {
-                    translateMessage(found);
-                    continue;
-                }
+        // SOOP renders the chat input late and may re-render it
+        attachCompose(translateDraft);
 
-                // Case 3: some ancestor was added — scan descendants
-                for (const msg of findChatMessages(node)) {
-                    translateMessage(msg);
+        for (const mutation of mutations) {
+            if (mutation.type === "characterData") {
+                handleTextChange(mutation.target);
+                continue;
+            }
+            for (const node of mutation.addedNodes) {
+                if (node instanceof Element) {
+                    scan(node);
+                } else {
+                    handleTextChange(node);
                 }
             }
         }
@@ -176,20 +641,75 @@ function observeChat() {
     observer.observe(document.body, {
         childList: true,
         subtree: true,
+        characterData: true,
     });
 
-    // Translate any messages already on screen
-    const existing = findChatMessages(document);
-    for (const msg of existing) {
-        translateMessage(msg);
-    }
+    // Translate anything already on screen
+    scan(document);
+    attachCompose(translateDraft);
 
     console.log("[SOOP Translator] Chat observer started.");
 }
 
-// Start observing after DOM is ready
-if (document.readyState === "loading") {
-    document.addEventListener("DOMContentLoaded", observeChat);
-} else {
-    observeChat();
-}
+// --- On-demand translation ---
+// In "hover" mode a line is translated once the pointer rests on it briefly,
+// so sweeping across the chat doesn't queue every line passed over.
+const HOVER_DELAY_MS = 400;
+let hoverTimer: ReturnType<typeof setTimeout> | null = null;
+let hoveredContainer: Element | null = null;
+
+document.addEventListener("mouseover", (event) => {
+    if (translateMode !== "hover" || !(event.target instanceof Element)) return;
+    const container = event.target.closest("[data-soop-controls]");
+    if (container === hoveredContainer) return;
+
+    hoveredContainer = container;
+    if (hoverTimer !== null) clearTimeout(hoverTimer);
+    hoverTimer = null;
+    if (!container) return;
+
+    hoverTimer = setTimeout(() => {
+        hoverTimer = null;
+        const source = sourceOf.get(container);
+        if (source && container.matches(":hover")) translateMessage(source, { onDemand: true });
+    }, HOVER_DELAY_MS);
+});
+
+chrome.runtime.onMessage.addListener(
+    (message: ContentRequest, _sender, sendResponse: (response: FilterStatsResponse | ChannelInfoResponse) => void) => {
+        switch (message.type) {
+            case "TRANSLATE_RECENT": {
+                // Keyboard shortcut, relayed by the background (see "commands" in the manifest)
+                const recent = Array.from(document.querySelectorAll("[data-soop-controls]"))
+                    .map((container) => sourceOf.get(container))
+                    .filter((source): source is Element => source !== undefined)
+                    .slice(-shortcutLineCount);
+                // Each one jumps the queue, so the newest line ends up first
+                for (const source of recent) translateMessage(source, { onDemand: true });
+                return false;
+            }
+            case "TOGGLE_COMPOSE":
+                attachCompose(translateDraft);
+                toggleCompose();
+                return false;
+            case "FILTER_STATS":
+                sendResponse({ success: true, counts: filterSkipCounts() });
+                return false;
+            case "CHANNEL_INFO":
+                // For the popup's per-channel settings
+                sendResponse({ streamerId: getStreamerId(), broadcastNo: getBroadcastNo() });
+                return false;
+            default:
+                return false;
+        }
+    }
+);
+
+// Start observing after DOM is ready and settings are loaded
+settingsLoaded.then(() => {
+    if (document.readyState === "loading") {
+        document.addEventListener("DOMContentLoaded", observeChat);
+    } else {
+        observeChat();
+    }
+});
@@ -0,0 +1,139 @@
+/**
+ * Bounded queue of chat lines waiting to be sent for translation.
+ *
+ * On a fast chat lines arrive faster than the model translates them. Rather than
+ * translating lines that scrolled away long ago, the queue drops lines that waited
+ * longer than `maxAgeMs` and, past `maxLength`, drops lines according to the policy.
+ * Lines whose element left the DOM are discarded, or cancelled if already sent.
+ */
+
+import type { QueueDropPolicy } from "../config/defaults";
+
+export interface LineTask {
+    /** The chat line's element; the task is cancelled once it is removed from the DOM. */
+    element: Element;
+    /** Sends the request and renders the result. Settles when the line is finished. */
+    run: () => Promise<void>;
+    /** Called while `run` is pending when the element was removed. */
+    cancel: () => void;
+    /** Called instead of `run` when the line is dropped from the queue. */
+    drop: () => void;
+}
+
+interface QueuedTask extends LineTask {
+    enqueuedAt: number;
+}
+
+export interface QueueLimits {
+    maxInFlight: number;
+    maxLength: number;
+    maxAgeMs: number;
+    policy: QueueDropPolicy;
+}
+
+const limits: QueueLimits = {
+    maxInFlight: 24,
+    maxLength: 40,
+    maxAgeMs: 20 * 1000,
+    policy: "offscreen",
+};
+
+let queue: QueuedTask[] = [];
+const inFlight = new Set<LineTask>();
+let onChange: ((queued: number, inFlight: number) => void) | null = null;
+
+export function configureQueue(update: Partial<QueueLimits>) {
+    Object.assign(limits, update);
+    processQueue(); // Maybe we can run more now
+}
+
+/** Called with the queue depth and in-flight count whenever the queue is processed. */
+export function onQueueChange(listener: (queued: number, inFlight: number) => void) {
+    onChange = listener;
+}
+
+/** Queues a line. On-demand lines (requested by the user) go to the front. */
+export function enqueueLine(task: LineTask, front = false) {
+    const queued: QueuedTask = { ...task, enqueuedAt: Date.now() };
+    if (front) {
+        queue.unshift(queued);
+    } else {
+        queue.push(queued);
+    }
+    processQueue();
+}
+
+/** Discards queued lines and cancels in-flight lines whose element left the DOM. */
+export function cancelDetached() {
+    queue = queue.filter((task) => task.element.isConnected);
+    for (const task of inFlight) {
+        if (!task.element.isConnected) {
+            inFlight.delete(task); // so a freed slot is reused before the cancel round-trip
+            task.cancel();
+        }
+    }
+    processQueue();
+}
+
+function processQueue() {
+    prune();
+    // Keep pulling from queue as long as we have limit to spare
+    while (queue.length > 0 && inFlight.size < limits.maxInFlight) {
+        const task = queue.shift()!;
+        inFlight.add(task);
+        task.run().finally(() => {
+            if (inFlight.delete(task)) processQueue();
+        });
+    }
+    onChange?.(queue.length, inFlight.size);
+}
+
+/** Applies the age and length limits to the waiting lines. */
+function prune() {
+    const now = Date.now();
+    const kept: QueuedTask[] = [];
+    for (const task of queue) {
+        if (!task.element.isConnected) continue;
+        if (now - task.enqueuedAt > limits.maxAgeMs) {
+            task.drop();
+            continue;
+        }
+        kept.push(task);
+    }
+    queue = kept;
+
+    let excess = queue.length - Math.max(1, limits.maxLength);
+    if (excess <= 0) return;
+
+    if (limits.policy === "offscreen") {
+        queue = queue.filter((task) => {
+            if (excess <= 0 || isInViewport(task.element)) return true;
+            task.drop();
+            excess--;
+            return false;
+        });
+    }
+    // Oldest first; also covers "offscreen" when too few lines were out of view
+    if (excess > 0) {
+        for (const task of queue.splice(0, excess)) task.drop();
+    }
+}
+
+/**
+ * Whether any part of the element is visible, both in the window and inside every
+ * scrolled ancestor (the chat list scrolls independently of the page).
+ */
+function isInViewport(element: Element): boolean {
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 && rect.height === 0) return false; // hidden
+    if (rect.bottom < 0 || rect.top > window.innerHeight) return false;
+
+    for (let parent = element.parentElement; parent && parent !== document.body; parent = parent.parentElement) {
+        if (parent.scrollHeight <= parent.clientHeight) continue;
+        const overflowY = getComputedStyle(parent).overflowY;
+        if (overflowY !== "auto" && overflowY !== "scroll") continue;
+        const bounds = parent.getBoundingClientRect();
+        if (rect.bottom < bounds.top || rect.top > bounds.bottom) return false;
+    }
+    return true;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { romanize, romanizeHangul, romanizeKana } from "./romanize";
+
+describe("romanizeHangul", () => {
+    it.each([
+        // Syllables as spelled
+        ["plain syllables", "사랑", "sarang"],
+        ["final at the end of a word", "밥", "bap"],
+        ["standalone jamo", "ㅋㅋㅠㅠ", "kkyuyu"],
+        // Linking into a silent ㅇ
+        ["linked final", "한국어", "hangugeo"],
+        ["linked double final", "읽어", "ilgeo"],
+        // Nasalization
+        ["ㅂ before ㄴ", "감사합니다", "gamsahamnida"],
+        ["ㄱ before ㅁ", "국물", "gungmul"],
+        ["ㄱ before ㄹ", "국립", "gungnip"],
+        ["ㅇ before ㄹ", "종로", "jongno"],
+        // ㄹ assimilation
+        ["ㄴ before ㄹ", "신라", "silla"],
+        ["ㄹ before ㄴ", "설날", "seollal"],
+        // Aspiration with ㅎ
+        ["ㅎ final before ㄷ", "좋다", "jota"],
+        ["ㄱ before ㅎ", "축하", "chuka"],
+        ["ㅂ before ㅎ", "입학", "ipak"],
+        ["ㅈ before ㅎ", "잊히다", "ichida"],
+        // Palatalization
+        ["ㅌ before 이", "같이", "gachi"],
+        ["ㄷ before 이", "굳이", "guji"],
+        ["ㄷ before 이 inside a word", "해돋이", "haedoji"],
+        ["ㄷ before 히", "굳히다", "guchida"],
+        ["ㄾ before 이", "핥이다", "halchida"],
+        ["ㅌ before another vowel", "밭에", "bate"],
+        // Only Hangul changes
+        ["mixed text", "ㅋㅋ GG 잘했다!", "kk GG jalhaetda!"],
+    ])("%s: %s → %s", (_, text, expected) => {
+        expect(romanizeHangul(text)).toBe(expected);
+    });
+});
+
+describe("romanizeKana", () => {
+    it.each([
+        ["plain hiragana", "さくら", "sakura"],
+        ["digraphs", "しゃちょう", "shachō"],
+        ["sokuon", "きって", "kitte"],
+        ["sokuon before ch", "まっちゃ", "matcha"],
+        ["ん before a vowel", "しんいち", "shin'ichi"],
+        ["long vowel mark", "コーヒー", "kōhī"],
+        ["loanword sounds", "ファイト", "faito"],
+        ["おう", "ありがとう", "arigatō"],
+        ["うう", "くうき", "kūki"],
+        ["ゆう", "ゆうき", "yūki"],
+        ["katakana おう", "ソウル", "sōru"],
+        ["repeated long vowels", "こうこう", "kōkō"],
+        ["う after another vowel", "かう", "kau"],
+        ["punctuation", "はい、どうぞ。", "hai, dōzo."],
+        ["Latin ou is left alone", "you ありがとう", "you arigatō"],
+    ])("%s: %s → %s", (_, text, expected) => {
+        expect(romanizeKana(text)).toBe(expected);
+    });
+});
+
+describe("romanize", () => {
+    it.each([
+        ["Hangul", "감사합니다", "gamsahamnida"],
+        ["kana", "ありがとう", "arigatō"],
+        ["kanji mixed with kana", "配信ありがとう", undefined],
+        ["no Hangul or kana", "GG wp", undefined],
+    ])("%s: %s", (_, text, expected) => {
+        expect(romanize(text)).toBe(expected);
+    });
+});
@@ -0,0 +1,215 @@
+/**
+ * Local romanization of chat lines, shown as a reading aid next to translations.
+ *
+ * Hangul follows the Revised Romanization of Korean with the common sound changes
+ * between syllables (linking, nasalization, ㄹ assimilation, aspiration with ㅎ,
+ * palatalization before 이), so the result reflects how a line is pronounced rather
+ * than spelled. Kana follows modified Hepburn, long vowels written with macrons. Kanji have no reading in the text itself; lines mixing kanji and
+ * kana are only romanized from the reading the model supplies (see `kanjiReadings`).
+ */
+
+const HANGUL_BASE = 0xac00;
+const HANGUL_END = 0xd7a3;
+
+// Revised Romanization, by jamo index within a precomposed syllable
+const INITIALS = ["g", "kk", "n", "d", "tt", "r", "m", "b", "pp", "s", "ss", "", "j", "jj", "ch", "k", "t", "p", "h"];
+const MEDIALS = [
+    "a", "ae", "ya", "yae", "eo", "e", "yeo", "ye", "o", "wa", "wae", "oe", "yo", "u", "wo", "we", "wi", "yu", "eu", "ui", "i",
+];
+// Final before a consonant or at the end of a word
+const FINALS = [
+    "", "k", "k", "k", "n", "n", "n", "t", "l", "k", "m", "l", "l", "l", "p", "l", "m", "p", "p", "t", "t", "ng", "t", "t", "k", "t", "p", "t",
+];
+// Final carried over to a following syllable that starts with silent ㅇ
+const LINKED_FINALS = [
+    "", "g", "kk", "ks", "n", "nj", "n", "d", "r", "lg", "lm", "lb", "ls", "lt", "lp", "r", "m", "b", "ps", "s", "ss", "ng", "j", "ch", "k", "t", "p", "",
+];
+
+// Jamo indices used by the sound change rules
+const INITIAL_N = 2;
+const INITIAL_D = 3;
+const INITIAL_R = 5;
+const INITIAL_M = 6;
+const INITIAL_SILENT = 11;
+const INITIAL_J = 12;
+const INITIAL_H = 18;
+const INITIAL_G = 0;
+const MEDIAL_I = 20;
+const FINAL_D = 7;
+const FINAL_LT = 13;
+const FINAL_J = 22;
+const FINAL_T = 25;
+// ㄶ, ㅀ, ㅎ: the ㅎ aspirates a following ㄱ/ㄷ/ㅈ; what is left of the final
+const H_FINALS: Record<number, string> = { 6: "n", 15: "l", 27: "" };
+const ASPIRATED: Record<number, string> = { [INITIAL_G]: "k", [INITIAL_D]: "t", [INITIAL_J]: "ch" };
+// A final stop before ㄴ/ㅁ (and ㄹ) is pronounced as the matching nasal
+const NASALIZED: Record<string, string> = { k: "ng", t: "n", p: "m" };
+
+// Standalone jamo as typed in chat (ㅋㅋ, ㅠㅠ), U+3131–U+3163
+const COMPAT_JAMO = [
+    "g", "kk", "gs", "n", "nj", "nh", "d", "tt", "r", "lg", "lm", "lb", "ls", "lt", "lp", "lh", "m", "b", "pp", "bs", "s", "ss", "ng", "j", "jj", "ch", "k", "t", "p", "h",
+    ...MEDIALS,
+];
+const COMPAT_JAMO_BASE = 0x3131;
+
+interface Syllable {
+    initial: number;
+    medial: number;
+    final: number;
+}
+
+function decompose(code: number): Syllable | null {
+    if (code < HANGUL_BASE || code > HANGUL_END) return null;
+    const index = code - HANGUL_BASE;
+    return { initial: Math.floor(index / 588), medial: Math.floor((index % 588) / 28), final: index % 28 };
+}
+
+/** How a final and the start of the next syllable are pronounced together. */
+function join(final: number, { initial, medial }: Syllable): [string, string] {
+    const coda = FINALS[final];
+    if (medial === MEDIAL_I) {
+        // Palatalization: 같이 gachi, 굳이 guji, 핥이다 halchida, 굳히다 guchida
+        if (initial === INITIAL_SILENT && final === FINAL_D) return ["", "j"];
+        if (initial === INITIAL_SILENT && final === FINAL_T) return ["", "ch"];
+        if (initial === INITIAL_SILENT && final === FINAL_LT) return ["l", "ch"];
+        if (initial === INITIAL_H && final === FINAL_D) return ["", "ch"];
+    }
+    if (initial === INITIAL_SILENT) return ["", LINKED_FINALS[final]];
+    if (final in H_FINALS && initial in ASPIRATED) return [H_FINALS[final], ASPIRATED[initial]];
+    if (initial === INITIAL_H && (coda === "k" || coda === "p")) return ["", coda];
+    if (initial === INITIAL_H && coda === "t") return ["", final === FINAL_J ? "ch" : "t"];
+    if (initial === INITIAL_R) {
+        if (coda === "n" || coda === "l") return ["l", "l"];
+        if (coda) return [NASALIZED[coda] ?? coda, "n"];
+    }
+    if (initial === INITIAL_N && coda === "l") return ["l", "l"];
+    if ((initial === INITIAL_N || initial === INITIAL_M) && coda in NASALIZED) return [NASALIZED[coda], INITIALS[initial]];
+    return [coda, INITIALS[initial]];
+}
+
+function romanizeHangulWord(syllables: Syllable[]): string {
+    let out = "";
+    syllables.forEach((syllable, i) => {
+        const previous = syllables[i - 1];
+        const next = syllables[i + 1];
+        const initial = previous ? join(previous.final, syllable)[1] : INITIALS[syllable.initial];
+        const final = next ? join(syllable.final, next)[0] : FINALS[syllable.final];
+        out += initial + MEDIALS[syllable.medial] + final;
+    });
+    return out;
+}
+
+/** Romanizes the Hangul in `text`; everything else is kept as written. */
+export function romanizeHangul(text: string): string {
+    let out = "";
+    let word: Syllable[] = [];
+    for (const char of text) {
+        const code = char.codePointAt(0)!;
+        const syllable = decompose(code);
+        if (syllable) {
+            word.push(syllable);
+            continue;
+        }
+        if (word.length > 0) out += romanizeHangulWord(word);
+        word = [];
+        const jamo = COMPAT_JAMO[code - COMPAT_JAMO_BASE];
+        out += jamo ?? char;
+    }
+    if (word.length > 0) out += romanizeHangulWord(word);
+    return out;
+}
+
+// Modified Hepburn for hiragana; katakana are mapped onto hiragana first
+const KANA: Record<string, string> = {
+    あ: "a", い: "i", う: "u", え: "e", お: "o",
+    か: "ka", き: "ki", く: "ku", け: "ke", こ: "ko",
+    が: "ga", ぎ: "gi", ぐ: "gu", げ: "ge", ご: "go",
+    さ: "sa", し: "shi", す: "su", せ: "se", そ: "so",
+    ざ: "za", じ: "ji", ず: "zu", ぜ: "ze", ぞ: "zo",
+    た: "ta", ち: "chi", つ: "tsu", て: "te", と: "to",
+    だ: "da", ぢ: "ji", づ: "zu", で: "de", ど: "do",
+    な: "na", に: "ni", ぬ: "nu", ね: "ne", の: "no",
+    は: "ha", ひ: "hi", ふ: "fu", へ: "he", ほ: "ho",
+    ば: "ba", び: "bi", ぶ: "bu", べ: "be", ぼ: "bo",
+    ぱ: "pa", ぴ: "pi", ぷ: "pu", ぺ: "pe", ぽ: "po",
+    ま: "ma", み: "mi", む: "mu", め: "me", も: "mo",
+    や: "ya", ゆ: "yu", よ: "yo",
+    ら: "ra", り: "ri", る: "ru", れ: "re", ろ: "ro",
+    わ: "wa", ゐ: "i", ゑ: "e", を: "o", ん: "n",
+    ゔ: "vu", ゕ: "ka", ゖ: "ke", ゎ: "wa",
+    "、": ", ", "。": ". ", "・": " ", "　": " ",
+};
+const SMALL_Y: Record<string, string> = { ゃ: "a", ゅ: "u", ょ: "o" };
+const SMALL_VOWELS: Record<string, string> = { ぁ: "a", ぃ: "i", ぅ: "u", ぇ: "e", ぉ: "o" };
+const MACRONS: Record<string, string> = { a: "ā", i: "ī", u: "ū", e: "ē", o: "ō" };
+const SOKUON = "っ";
+// う lengthening a preceding o or u: おう ō, ゆう yū
+const LENGTHENER = "う";
+const LONG_VOWEL = "ー";
+
+const KATAKANA = /[ァ-ヶ]/g;
+
+function toHiragana(text: string): string {
+    return text.replace(KATAKANA, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+/** Romanizes the kana in `text`; everything else is kept as written. */
+export function romanizeKana(text: string): string {
+    const chars = Array.from(toHiragana(text));
+    let out = "";
+    let doubleNext = false;
+    // Last vowel written for a kana, which a following う or ー may lengthen
+    let vowel = "";
+    for (let i = 0; i < chars.length; i++) {
+        const char = chars[i];
+        let roman = KANA[char];
+        if (char === SOKUON) {
+            doubleNext = true;
+            continue;
+        }
+        if (char === LONG_VOWEL || (char === LENGTHENER && (vowel === "o" || vowel === "u"))) {
+            if (MACRONS[vowel]) out = out.slice(0, -1) + MACRONS[vowel];
+            vowel = "";
+            continue;
+        }
+        if (roman === undefined) {
+            // Small kana on their own, or text that is not kana
+            roman = SMALL_Y[char] ?? SMALL_VOWELS[char] ?? char;
+        } else {
+            const next = chars[i + 1];
+            if (next in SMALL_Y && roman.endsWith("i") && roman.length > 1) {
+                // きゃ kya, しゃ sha, ちゃ cha, じゃ ja
+                const stem = roman.slice(0, -1);
+                roman = (/(sh|ch|j)$/.test(stem) ? stem : stem + "y") + SMALL_Y[next];
+                i++;
+            } else if (next in SMALL_VOWELS && roman !== "n") {
+                // Loanword sounds: ファ fa, ティ ti, ウィ wi
+                roman = (roman.length > 1 ? roman.slice(0, -1) : "w") + SMALL_VOWELS[next];
+                i++;
+            }
+            if (char === "ん" && /^[aiueoy]/.test(KANA[chars[i + 1]] ?? "")) roman = "n'";
+        }
+        if (doubleNext && /^[a-z]/.test(roman)) {
+            roman = roman.startsWith("ch") ? "t" + roman : roman[0] + roman;
+        }
+        doubleNext = false;
+        vowel = roman !== char && /[aiueo]$/.test(roman) ? roman.slice(-1) : "";
+        out += roman;
+    }
+    return out.trim();
+}
+
+const HANGUL_RE = /[가-힣ㄱ-ㅣ]/;
+const KANA_RE = /[ぁ-ゖァ-ヺ]/;
+const HAN_RE = /\p{Script=Han}/u;
+
+/**
+ * Romanization of `text`, or undefined when it has no Hangul or kana, or mixes kanji
+ * with kana (a half-romanized line would be misleading; pass the reading instead).
+ */
+export function romanize(text: string): string | undefined {
+    const hasKana = KANA_RE.test(text);
+    if (!HANGUL_RE.test(text) && !hasKana) return undefined;
+    if (hasKana && HAN_RE.test(text)) return undefined;
+    return romanizeKana(romanizeHangul(text)).trim();
+}
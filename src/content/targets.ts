@@ -0,0 +1,134 @@
+/**
+ * Site adapters: every part of a SOOP page we translate, as a table of named DOM targets.
+ *
+ * Each target says where its text lives, how to read it and how the translation is
+ * rendered. When SOOP changes its markup, only this table should need updating.
+ * Targets are tried in table order and an element is claimed by the first match.
+ */
+
+import type { TargetCategory } from "../config/defaults";
+
+/**
+ * - below: a block right after the element (chat lines, notices)
+ * - inline: appended inside the element, for single-line headings like the title
+ */
+export type RenderStrategy = "below" | "inline";
+
+export interface DomTarget {
+    category: TargetCategory;
+    /** Matches the element whose text is translated. */
+    selector: string;
+    /** Only on hosts matching this, e.g. VOD replay pages. */
+    host?: RegExp;
+    /** Element that carries the translation state attribute, the translation and the controls. */
+    container: (el: Element) => Element | null;
+    /** Text to translate; "" leaves the element alone. */
+    extract: (el: Element) => string;
+    render: RenderStrategy;
+    /**
+     * Chat-like lines feed the context window, follow the translate mode and message
+     * filters, and get per-line controls. Other targets are always translated.
+     */
+    chatLike: boolean;
+    /** Translate again when the element's text changes in place. */
+    watchText?: boolean;
+}
+
+// Our own nodes, never part of the source text
+const OWN_NODES_SELECTOR = ".soop-translation, .soop-line-controls";
+
+/** Visible text of an element without our nodes and without buttons. */
+function ownText(el: Element): string {
+    const clone = el.cloneNode(true) as Element;
+    clone.querySelectorAll(`${OWN_NODES_SELECTOR}, button`).forEach((node) => node.remove());
+    return clone.textContent?.replace(/\s+/g, " ").trim() || "";
+}
+
+/** Chat text without SOOP's own translate button (`btn-translate`) and its trailing label. */
+function chatText(el: Element): string {
+    const clone = el.cloneNode(true) as Element;
+    clone.querySelectorAll(`${OWN_NODES_SELECTOR}, button, [id='btn-translate']`).forEach((node) => node.remove());
+
+    let textContent = clone.textContent?.trim() || "";
+    if (textContent.endsWith("번역")) {
+        textContent = textContent.replace(/번역$/, "").trim();
+    }
+    return textContent;
+}
+
+const parent = (el: Element) => el.parentElement;
+const self = (el: Element) => el;
+
+/**
+ * Only the live chat entry is confirmed against the SOOP DOM:
+ *   div.message-text[id="<numeric-id>"]   ← message container
+ *     p#message-original                  ← chat message text
+ * The other selectors are best guesses; a target that matches nothing is harmless.
+ */
+export const DOM_TARGETS: readonly DomTarget[] = [
+    {
+        // VOD pages render the chat replay with the live chat markup minus the id
+        category: "replay",
+        selector: ".message-text p",
+        host: /^vod\./,
+        container: parent,
+        extract: chatText,
+        render: "below",
+        chatLike: true,
+    },
+    {
+        category: "donation",
+        selector: ".chatting-list-item [class*='balloon'] .message-text p, .chatting-list-item [class*='donation'] .message-text p",
+        container: parent,
+        extract: chatText,
+        render: "below",
+        chatLike: true,
+    },
+    {
+        category: "chat",
+        selector: ".message-text[id] p#message-original",
+        container: parent,
+        extract: chatText,
+        render: "below",
+        chatLike: true,
+    },
+    {
+        category: "notice",
+        selector: ".notice_box .notice_text, .chat-notice .notice-text, [class*='pinned'] .message-text p",
+        container: parent,
+        extract: ownText,
+        render: "below",
+        chatLike: false,
+    },
+    {
+        category: "system",
+        selector: ".chatting-list-item.system p, .chatting-list-item [class*='system'] p, .system-message",
+        container: parent,
+        extract: ownText,
+        render: "below",
+        chatLike: false,
+    },
+    {
+        category: "title",
+        selector: "#infoTitle, .broadcast_title, .broadcast-title",
+        container: self,
+        extract: ownText,
+        render: "inline",
+        chatLike: false,
+        watchText: true,
+    },
+];
+
+/** Targets that apply to this page and are switched on. */
+export function activeTargets(enabled: ReadonlySet<TargetCategory>): DomTarget[] {
+    return DOM_TARGETS.filter((target) =>
+        enabled.has(target.category) && (!target.host || target.host.test(location.hostname))
+    );
+}
+
+/** Current broadcast title from the title target, without our translation. */
+export function broadcastTitle(): string | undefined {
+    const target = DOM_TARGETS.find((t) => t.category === "title");
+    const el = target && document.querySelector(target.selector);
+    return (el && target.extract(el)) || undefined;
+}
@@ -0,0 +1,80 @@
+/**
+ * Transcript recording: sends chat lines and their translations to the background,
+ * which stores them per broadcast (src/background/transcripts.ts).
+ *
+ * Opt-in via `transcriptEnabled`. Lines are collected and sent in batches; a line is
+ * sent again, complete, once its translation is known.
+ */
+
+import type { TranscriptAppendRequest, TranscriptLine, TranscriptSessionInfo } from "../shared/messages";
+import { getBroadcastNo, getStreamerId } from "./channel";
+import { broadcastTitle } from "./targets";
+
+const FLUSH_INTERVAL_MS = 2000;
+
+let enabled = false;
+const pending = new Map<string, TranscriptLine>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Line ids only need to be unique within a session; the page load time keeps ids
+// from a reloaded page apart
+const pageId = Date.now().toString(36);
+let nextLine = 1;
+
+chrome.storage.local.get("transcriptEnabled", (res) => {
+    enabled = !!res.transcriptEnabled;
+});
+chrome.storage.onChanged.addListener((changes, area) => {
+    if (area !== "local" || !changes.transcriptEnabled) return;
+    enabled = !!changes.transcriptEnabled.newValue;
+    if (!enabled) pending.clear();
+});
+
+export function newTranscriptLineId(): string {
+    return `${pageId}-${nextLine++}`;
+}
+
+/** Seconds into the video on VOD replays, where the chat replays along with it. */
+export function currentStreamTime(): number | undefined {
+    if (!location.hostname.startsWith("vod.")) return undefined;
+    const time = document.querySelector("video")?.currentTime;
+    return time !== undefined && Number.isFinite(time) ? time : undefined;
+}
+
+function sessionInfo(): TranscriptSessionInfo {
+    const streamerId = getStreamerId();
+    const broadcastNo = getBroadcastNo();
+    const prefix = location.hostname.startsWith("vod.") ? "vod" : streamerId ?? location.hostname;
+    // Without a broadcast number, everything recorded on one channel and day is one session
+    const day = new Date().toLocaleDateString("sv"); // YYYY-MM-DD
+    return {
+        id: `${prefix}/${broadcastNo ?? day}`,
+        streamerId,
+        broadcastNo,
+        title: broadcastTitle(),
+    };
+}
+
+function flush() {
+    if (flushTimer !== null) clearTimeout(flushTimer);
+    flushTimer = null;
+    if (pending.size === 0) return;
+
+    const request: TranscriptAppendRequest = {
+        type: "TRANSCRIPT_APPEND",
+        session: sessionInfo(),
+        lines: Array.from(pending.values()),
+    };
+    pending.clear();
+    chrome.runtime.sendMessage(request, () => void chrome.runtime.lastError); // no response expected
+}
+
+/** Queues a complete line record; a later call with the same lineId replaces it. */
+export function recordTranscript(line: TranscriptLine) {
+    if (!enabled) return;
+    pending.set(line.lineId, line);
+    if (flushTimer === null) flushTimer = setTimeout(flush, FLUSH_INTERVAL_MS);
+}
+
+// Don't lose the last lines when the tab is closed or navigates away
+addEventListener("pagehide", flush);
@@ -0,0 +1,131 @@
+/**
+ * Correction review page: lists stored corrections and "wrong" reports, and lets the
+ * user fix, promote to the glossary or delete them.
+ *
+ * Changes go through the background, which keeps the translation cache in step.
+ */
+
+import { CORRECTIONS_STORAGE_KEY, loadCorrections, type Correction } from "../config/corrections";
+import type { CorrectionDeleteRequest, CorrectionRequest, CorrectionResponse } from "../shared/messages";
+
+const searchInput = document.getElementById("search") as HTMLInputElement;
+const countLabel = document.getElementById("count")!;
+const table = document.getElementById("correctionTable") as HTMLTableSectionElement;
+const emptyMessage = document.getElementById("correctionEmpty")!;
+
+let corrections: Correction[] = [];
+
+function request(message: CorrectionRequest | CorrectionDeleteRequest): Promise<void> {
+    return new Promise((resolve) => {
+        chrome.runtime.sendMessage(message, (response: CorrectionResponse) => {
+            if (chrome.runtime.lastError || !response?.success) {
+                const error = chrome.runtime.lastError?.message ?? response?.error;
+                console.error("[SOOP Translator] Correction update failed:", error);
+                alert(`저장하지 못했습니다: ${error ?? "알 수 없는 오류"}`);
+            }
+            resolve();
+        });
+    });
+}
+
+function save(correction: Correction, translation: string, addToGlossary = false) {
+    return request({
+        type: "CORRECTION",
+        text: correction.text,
+        targetLang: correction.targetLang,
+        translation,
+        rejected: correction.rejected,
+        streamerId: correction.streamerId,
+        addToGlossary,
+    });
+}
+
+function matchesSearch(correction: Correction, query: string): boolean {
+    if (!query) return true;
+    return [correction.text, correction.translation, correction.rejected ?? "", correction.streamerId ?? ""]
+        .some((field) => field.toLowerCase().includes(query));
+}
+
+function actionButton(label: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = label;
+    button.title = title;
+    button.addEventListener("click", onClick);
+    return button;
+}
+
+function renderRow(correction: Correction) {
+    const row = table.insertRow();
+
+    row.insertCell().textContent = correction.text;
+
+    const rejected = row.insertCell();
+    rejected.className = "rejected";
+    rejected.textContent = correction.rejected ?? "";
+
+    const input = document.createElement("input");
+    input.type = "text";
+    input.value = correction.translation;
+    input.placeholder = "번역 입력";
+    const translationCell = row.insertCell();
+    translationCell.className = "translation";
+    translationCell.appendChild(input);
+
+    const meta = row.insertCell();
+    meta.className = "meta";
+    meta.textContent = [
+        correction.targetLang,
+        correction.streamerId ? `@${correction.streamerId}` : "",
+        new Date(correction.updatedAt).toLocaleDateString(),
+    ].filter(Boolean).join(" · ");
+
+    const saveButton = actionButton("저장", "이 번역으로 저장", () => void save(correction, input.value.trim()));
+    const glossaryButton = actionButton("용어집", "원문 → 번역을 용어집 규칙으로 추가", () => {
+        void save(correction, input.value.trim(), true);
+    });
+    const deleteButton = actionButton("삭제", "수정 기록 삭제 (다음에 다시 번역)", () => {
+        void request({ type: "CORRECTION_DELETE", text: correction.text, targetLang: correction.targetLang });
+    });
+    const updateButtons = () => {
+        const value = input.value.trim();
+        saveButton.disabled = !value || value === correction.translation;
+        glossaryButton.disabled = !value;
+    };
+    input.addEventListener("input", updateButtons);
+    input.addEventListener("keydown", (event) => {
+        if (event.key === "Enter" && !event.isComposing && !saveButton.disabled) saveButton.click();
+    });
+    updateButtons();
+
+    const actions = row.insertCell();
+    actions.className = "actions";
+    actions.append(saveButton, " ", glossaryButton, " ", deleteButton);
+}
+
+function render() {
+    const query = searchInput.value.trim().toLowerCase();
+    const shown = corrections.filter((c) => matchesSearch(c, query));
+    table.innerHTML = "";
+    for (const correction of shown) renderRow(correction);
+
+    emptyMessage.hidden = corrections.length > 0;
+    const reports = corrections.filter((c) => !c.translation).length;
+    countLabel.textContent = corrections.length > 0
+        ? `${shown.length} / ${corrections.length}개 (번역 없는 신고 ${reports}개)`
+        : "";
+}
+
+async function load() {
+    corrections = await loadCorrections();
+    render();
+}
+
+searchInput.addEventListener("input", render);
+
+// Reflect changes made here and from chat tabs
+chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === "local" && changes[CORRECTIONS_STORAGE_KEY]) void load();
+});
+
+void load();
@@ -0,0 +1,203 @@
+/**
+ * Endpoint diagnostics: runs the checks a translation depends on, in order, and
+ * explains each failure in plain words.
+ *
+ * permission → reachable → auth → model → roundtrip. A failed step skips the ones
+ * after it, since their results would only repeat the same cause.
+ */
+
+import { ApiError, jsonHeaders } from "../api/backend";
+import { createBackend } from "../api/factory";
+import { hasModel, modelListUrl, parseModelIds } from "../api/models";
+import type { BackendProvider, EndpointConfig, TranslatorSettings } from "../config/defaults";
+import { hasHostPermission, originPattern } from "../config/hosts";
+import { loadPromptPresets, resolvePreset } from "../config/prompts";
+
+export type StepId = "permission" | "reachable" | "auth" | "model" | "roundtrip";
+export type StepStatus = "pass" | "warn" | "fail" | "skip";
+
+export interface StepResult {
+    id: StepId;
+    status: StepStatus;
+    /** Plain-language result or cause, shown under the step. */
+    detail: string;
+    ms?: number;
+}
+
+export const STEP_LABELS: Record<StepId, string> = {
+    permission: "접근 권한",
+    reachable: "서버 연결",
+    auth: "인증",
+    model: "모델",
+    roundtrip: "테스트 번역",
+};
+
+// Listing models is cheap; a server that needs longer is effectively down
+const PROBE_TIMEOUT_MS = 5000;
+
+/** Where to check that the server answers: the model list, or what the backend itself probes. */
+function probeUrl(provider: BackendProvider, apiBase: string): string {
+    const base = apiBase.replace(/\/$/, "");
+    return modelListUrl(provider, apiBase) ?? (provider === "llamacpp" ? `${base}/health` : `${base}/languages`);
+}
+
+function elapsed(startedAt: number): number {
+    return Math.round(performance.now() - startedAt);
+}
+
+function isTimeout(err: unknown): boolean {
+    return err instanceof DOMException && err.name === "TimeoutError";
+}
+
+/** Plain-language cause for a failed test translation. */
+function explainTranslateError(err: unknown, timeoutSeconds: number): string {
+    if (isTimeout(err)) {
+        return `${timeoutSeconds}초 안에 번역이 끝나지 않았습니다. 모델을 불러오는 중이거나 서버가 너무 느립니다. 잠시 후 다시 시도하거나 요청 제한 시간을 늘려 보세요.`;
+    }
+    if (err instanceof ApiError) {
+        if (err.status === 401 || err.status === 403) return `번역 요청이 거부되었습니다 (HTTP ${err.status}). API 키를 확인하세요.`;
+        if (err.status === 404) return "번역 요청 주소가 없습니다 (HTTP 404). 백엔드 종류나 모델명이 맞는지 확인하세요.";
+        if (err.status === 429) return "요청이 너무 많다며 거절되었습니다 (HTTP 429). 잠시 후 다시 시도하세요.";
+        if (err.status >= 500) return `서버가 번역 중 오류를 냈습니다 (HTTP ${err.status}). 서버 로그를 확인하세요.`;
+        return `번역 요청이 실패했습니다 (HTTP ${err.status}).`;
+    }
+    if (err instanceof TypeError) return "번역 요청 중 연결이 끊겼습니다. 서버가 실행 중인지 확인하세요.";
+    const message = err instanceof Error ? err.message : String(err);
+    if (message.startsWith("Unusable model output")) {
+        return `모델 응답을 번역으로 읽을 수 없습니다 (${message}). 프롬프트 템플릿이나 모델을 바꿔 보세요.`;
+    }
+    return `번역하지 못했습니다: ${message}`;
+}
+
+/**
+ * Runs every step against one endpoint, reporting each result as it finishes.
+ * `settings` supplies the languages, timeout and provider options; `endpoint`
+ * overrides where and with what model to translate.
+ */
+export async function diagnoseEndpoint(
+    settings: TranslatorSettings,
+    endpoint: EndpointConfig,
+    sampleText: string,
+    onStep: (result: StepResult) => void
+): Promise<void> {
+    const { provider, apiBase, model, apiKey } = endpoint;
+    const remaining: StepId[] = ["permission", "reachable", "auth", "model", "roundtrip"];
+    const report = (result: StepResult) => {
+        remaining.splice(remaining.indexOf(result.id), 1);
+        onStep(result);
+    };
+    const skipRest = (detail: string) => {
+        for (const id of [...remaining]) report({ id, status: "skip", detail });
+    };
+
+    // --- permission ---
+    if (!originPattern(apiBase)) {
+        report({ id: "permission", status: "fail", detail: "API 주소가 올바른 URL이 아닙니다. http:// 또는 https://로 시작해야 합니다 (예: http://localhost:18181)." });
+        skipRest("주소를 고친 뒤 다시 진단하세요.");
+        return;
+    }
+    if (!(await hasHostPermission(apiBase))) {
+        report({ id: "permission", status: "fail", detail: "이 주소에 접근할 권한이 없습니다. 권한 요청 창에서 허용해야 번역할 수 있습니다." });
+        skipRest("권한을 허용한 뒤 다시 진단하세요.");
+        return;
+    }
+    report({ id: "permission", status: "pass", detail: "이 주소에 접근할 수 있습니다." });
+
+    // --- reachable ---
+    const url = probeUrl(provider, apiBase);
+    let response: Response;
+    let startedAt = performance.now();
+    try {
+        response = await fetch(url, { headers: jsonHeaders(apiKey), signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    } catch (err) {
+        report({
+            id: "reachable",
+            status: "fail",
+            ms: elapsed(startedAt),
+            detail: isTimeout(err)
+                ? `${PROBE_TIMEOUT_MS / 1000}초 안에 응답이 없습니다. 서버가 멈췄거나 다른 작업으로 바쁜지 확인하세요.`
+                : "서버에 연결할 수 없습니다. 서버가 실행 중인지, 주소와 포트가 맞는지 확인하세요.",
+        });
+        skipRest("서버에 연결되지 않아 확인할 수 없습니다.");
+        return;
+    }
+    const probeMs = elapsed(startedAt);
+    if (response.status >= 500) {
+        report({ id: "reachable", status: "fail", ms: probeMs, detail: `서버가 오류를 냈습니다 (HTTP ${response.status}). 서버 로그를 확인하세요.` });
+        skipRest("서버 오류로 확인할 수 없습니다.");
+        return;
+    }
+    if (response.status === 404) {
+        report({
+            id: "reachable",
+            status: "warn",
+            ms: probeMs,
+            detail: `서버는 응답하지만 ${new URL(url).pathname} 주소가 없습니다 (HTTP 404). 백엔드 종류가 맞는지 확인하세요.`,
+        });
+    } else {
+        report({ id: "reachable", status: "pass", ms: probeMs, detail: `${new URL(url).host}에서 응답했습니다.` });
+    }
+
+    // --- auth ---
+    if (response.status === 401 || response.status === 403) {
+        report({
+            id: "auth",
+            status: "fail",
+            detail: apiKey
+                ? `API 키가 거부되었습니다 (HTTP ${response.status}). 키가 맞는지, 만료되지 않았는지 확인하세요.`
+                : `서버가 API 키를 요구합니다 (HTTP ${response.status}). API Key 칸에 키를 입력하세요.`,
+        });
+        skipRest("인증에 실패해 확인할 수 없습니다.");
+        return;
+    }
+    if (response.ok) {
+        report({ id: "auth", status: "pass", detail: apiKey ? "API 키가 받아들여졌습니다." : "API 키 없이 접근할 수 있습니다." });
+    } else {
+        report({ id: "auth", status: "skip", detail: "응답으로는 인증 여부를 알 수 없습니다." });
+    }
+
+    // --- model ---
+    if (!modelListUrl(provider, apiBase)) {
+        report({ id: "model", status: "skip", detail: "이 백엔드는 모델명을 쓰지 않습니다." });
+    } else if (!response.ok) {
+        report({ id: "model", status: "skip", detail: "모델 목록을 받지 못해 확인할 수 없습니다." });
+    } else {
+        let ids: string[] = [];
+        try {
+            ids = parseModelIds(provider, await response.json());
+        } catch (e) {
+            // Not JSON; handled as an empty list below
+        }
+        const available = ids.length > 0 ? ` 사용 가능한 모델: ${ids.slice(0, 8).join(", ")}${ids.length > 8 ? " …" : ""}` : "";
+        if (ids.length === 0) {
+            report({ id: "model", status: "warn", detail: "서버가 모델 목록을 주지 않았습니다. 모델명은 테스트 번역으로 확인합니다." });
+        } else if (!model) {
+            report({ id: "model", status: "fail", detail: `모델명이 비어 있습니다.${available}` });
+            skipRest("모델명을 입력한 뒤 다시 진단하세요.");
+            return;
+        } else if (!hasModel(provider, ids, model)) {
+            report({ id: "model", status: "fail", detail: `서버에 '${model}' 모델이 없습니다. 철자를 확인하거나 모델을 받아 두세요.${available}` });
+            skipRest("모델을 찾지 못해 번역할 수 없습니다.");
+            return;
+        } else {
+            report({ id: "model", status: "pass", detail: `'${model}' 모델이 있습니다.` });
+        }
+    }
+
+    // --- roundtrip ---
+    const endpointSettings: TranslatorSettings = { ...settings, provider, apiBase, model, apiKey };
+    const timeoutSeconds = Math.max(1, settings.requestTimeoutSeconds);
+    const prompt = resolvePreset(await loadPromptPresets(), endpointSettings);
+    startedAt = performance.now();
+    try {
+        const result = await createBackend(endpointSettings).translate(sampleText, {
+            targetLang: settings.targetLang,
+            sourceLang: settings.sourceLang,
+            prompt,
+            signal: AbortSignal.timeout(timeoutSeconds * 1000),
+        });
+        report({ id: "roundtrip", status: "pass", ms: elapsed(startedAt), detail: result });
+    } catch (err) {
+        report({ id: "roundtrip", status: "fail", ms: elapsed(startedAt), detail: explainTranslateError(err, timeoutSeconds) });
+    }
+}
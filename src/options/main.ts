@@ -0,0 +1,146 @@
+/**
+ * Options page: diagnoses the primary and fallback endpoints step by step and
+ * manages the API addresses granted at runtime.
+ */
+
+import { DEFAULT_SETTINGS, type EndpointConfig, type TranslatorSettings } from "../config/defaults";
+import { grantedOptionalOrigins, requestHostPermission, revokeHostPermission } from "../config/hosts";
+import { STEP_LABELS, diagnoseEndpoint, type StepId, type StepResult } from "./diagnostics";
+
+const endpointSelect = document.getElementById("endpointSelect") as HTMLSelectElement;
+const endpointDetail = document.getElementById("endpointDetail")!;
+const diagnoseButton = document.getElementById("diagnoseButton") as HTMLButtonElement;
+const sampleInput = document.getElementById("sampleText") as HTMLInputElement;
+const stepList = document.getElementById("stepList") as HTMLUListElement;
+const originList = document.getElementById("originList") as HTMLUListElement;
+const originEmpty = document.getElementById("originEmpty")!;
+
+const STATUS_ICONS: Record<StepResult["status"], string> = {
+    pass: "✓",
+    warn: "!",
+    fail: "✗",
+    skip: "–",
+};
+
+let settings: TranslatorSettings = DEFAULT_SETTINGS;
+
+function endpoints(): EndpointConfig[] {
+    const { provider, apiBase, model, apiKey } = settings;
+    return [{ provider, apiBase, model, apiKey }, ...settings.fallbackEndpoints];
+}
+
+function selectedEndpoint(): EndpointConfig {
+    return endpoints()[Number(endpointSelect.value)] ?? endpoints()[0];
+}
+
+function renderEndpoints() {
+    const previous = endpointSelect.value;
+    endpointSelect.innerHTML = "";
+    endpoints().forEach((endpoint, index) => {
+        const option = document.createElement("option");
+        option.value = index.toString();
+        option.textContent = `${index === 0 ? "기본" : `대체 ${index}`} · ${endpoint.apiBase} (${endpoint.provider})`;
+        endpointSelect.appendChild(option);
+    });
+    if (previous && Number(previous) < endpointSelect.options.length) endpointSelect.value = previous;
+    renderEndpointDetail();
+}
+
+function renderEndpointDetail() {
+    const { provider, apiBase, model, apiKey } = selectedEndpoint();
+    endpointDetail.textContent = [
+        `백엔드 ${provider}`,
+        apiBase,
+        model ? `모델 ${model}` : "",
+        apiKey ? "API 키 있음" : "API 키 없음",
+        `${settings.sourceLang || "Auto"} → ${settings.targetLang}`,
+    ].filter(Boolean).join(" · ");
+}
+
+function stepRow(id: StepId): HTMLLIElement {
+    let row = stepList.querySelector<HTMLLIElement>(`li[data-step="${id}"]`);
+    if (!row) {
+        row = document.createElement("li");
+        row.dataset.step = id;
+        for (const className of ["step-icon", "step-label", "step-detail", "step-ms"]) {
+            const span = document.createElement("span");
+            span.className = className;
+            row.appendChild(span);
+        }
+        row.querySelector(".step-label")!.textContent = STEP_LABELS[id];
+        stepList.appendChild(row);
+    }
+    return row;
+}
+
+function resetSteps() {
+    stepList.innerHTML = "";
+    for (const id of Object.keys(STEP_LABELS) as StepId[]) {
+        const row = stepRow(id);
+        row.className = "step-pending";
+        row.querySelector(".step-icon")!.textContent = "…";
+    }
+}
+
+function renderStep(result: StepResult) {
+    const row = stepRow(result.id);
+    row.className = `step-${result.status}`;
+    row.querySelector(".step-icon")!.textContent = STATUS_ICONS[result.status];
+    row.querySelector(".step-detail")!.textContent = result.detail;
+    row.querySelector(".step-ms")!.textContent = result.ms !== undefined ? `${result.ms}ms` : "";
+}
+
+async function renderOrigins() {
+    const origins = await grantedOptionalOrigins();
+    originList.innerHTML = "";
+    originEmpty.hidden = origins.length > 0;
+    for (const origin of origins) {
+        const li = document.createElement("li");
+        const label = document.createElement("span");
+        label.textContent = origin;
+        const revoke = document.createElement("button");
+        revoke.type = "button";
+        revoke.textContent = "해제";
+        revoke.title = "이 주소에 대한 접근 권한 해제";
+        revoke.addEventListener("click", () => void revokeHostPermission(origin).then(renderOrigins));
+        li.append(label, revoke);
+        originList.appendChild(li);
+    }
+}
+
+async function diagnose(permission: Promise<boolean>) {
+    const endpoint = selectedEndpoint();
+    diagnoseButton.disabled = true;
+    resetSteps();
+    try {
+        // A denied or failed request is reported by the permission step itself
+        await permission.catch(() => false);
+        await diagnoseEndpoint(settings, endpoint, sampleInput.value.trim() || sampleInput.defaultValue, renderStep);
+    } catch (err) {
+        console.error("[SOOP Translator] Diagnostics failed:", err);
+    } finally {
+        diagnoseButton.disabled = false;
+    }
+}
+
+function loadSettings() {
+    chrome.storage.local.get(DEFAULT_SETTINGS, (items) => {
+        settings = items as TranslatorSettings;
+        renderEndpoints();
+    });
+}
+
+endpointSelect.addEventListener("change", renderEndpointDetail);
+diagnoseButton.addEventListener("click", () => {
+    // Requested before anything is awaited: Chrome only prompts during the click
+    void diagnose(requestHostPermission([selectedEndpoint().apiBase]));
+});
+
+chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === "local" && Object.keys(changes).some((key) => key in DEFAULT_SETTINGS)) loadSettings();
+});
+chrome.permissions.onAdded.addListener(() => void renderOrigins());
+chrome.permissions.onRemoved.addListener(() => void renderOrigins());
+
+loadSettings();
+void renderOrigins();
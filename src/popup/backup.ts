@@ -0,0 +1,75 @@
+/**
+ * Settings backup and sync controls in the popup: export the whole configuration as
+ * JSON, import one (checked and migrated first), and switch account sync on or off.
+ */
+
+import { applyBackup, backupToJson, createBackup, parseBackup } from "../config/backup";
+import { loadSyncEnabled, saveSyncEnabled } from "../config/sync";
+import { download } from "./download";
+
+const includeKeysCheckbox = document.getElementById("backupIncludeKeys") as HTMLInputElement;
+const exportButton = document.getElementById("backupExport") as HTMLButtonElement;
+const importButton = document.getElementById("backupImport") as HTMLButtonElement;
+const importInput = document.getElementById("backupImportFile") as HTMLInputElement;
+const message = document.getElementById("backupMessage")!;
+const syncToggle = document.getElementById("settingsSyncToggle") as HTMLInputElement;
+
+// Problems listed in the import confirmation before the rest are summarized
+const MAX_LISTED_PROBLEMS = 5;
+
+function showMessage(text: string) {
+    message.textContent = text;
+    message.hidden = !text;
+}
+
+async function exportSettings() {
+    const backup = await createBackup(includeKeysCheckbox.checked);
+    const date = backup.exportedAt.slice(0, 10);
+    download(`soop-translator-settings-${date}.json`, backupToJson(backup), "application/json");
+}
+
+function confirmImport(problems: string[], includesApiKeys: boolean): boolean {
+    const lines = ["현재 설정을 파일의 설정으로 덮어씁니다. 계속할까요?"];
+    if (!includesApiKeys) lines.push("", "파일에 API 키가 없어 지금 API 키를 그대로 씁니다.");
+    if (problems.length > 0) {
+        lines.push("", "다음 값은 가져오지 않습니다:", ...problems.slice(0, MAX_LISTED_PROBLEMS).map((p) => `- ${p}`));
+        if (problems.length > MAX_LISTED_PROBLEMS) lines.push(`- 그 밖에 ${problems.length - MAX_LISTED_PROBLEMS}개`);
+    }
+    return confirm(lines.join("\n"));
+}
+
+async function importSettings(file: File) {
+    try {
+        const { backup, problems } = parseBackup(await file.text());
+        if (!confirmImport(problems, backup.includesApiKeys)) return;
+        await applyBackup(backup);
+        // Every panel reads its settings on load
+        location.reload();
+    } catch (e) {
+        console.log("[SOOP Translator] Failed to import settings:", e);
+        showMessage(`가져오지 못했습니다: ${e instanceof Error ? e.message : "알 수 없는 오류"}`);
+    }
+}
+
+export async function initBackupPanel() {
+    syncToggle.checked = await loadSyncEnabled();
+
+    exportButton.addEventListener("click", () => {
+        showMessage("");
+        void exportSettings();
+    });
+    importButton.addEventListener("click", () => {
+        showMessage("");
+        importInput.click();
+    });
+    importInput.addEventListener("change", () => {
+        const file = importInput.files?.[0];
+        importInput.value = "";
+        if (file) void importSettings(file);
+    });
+    syncToggle.addEventListener("change", () => {
+        // The background takes it from here: switching on adopts the account's settings
+        void saveSyncEnabled(syncToggle.checked);
+        showMessage(syncToggle.checked ? "다른 브라우저에서 동기화한 설정이 있으면 그 설정으로 바뀝니다. 팝업을 다시 열면 보입니다." : "");
+    });
+}
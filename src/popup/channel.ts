@@ -0,0 +1,120 @@
+/**
+ * "This channel" settings in the popup, shown when the active tab is on a SOOP
+ * channel. Each control either follows the global setting ("") or overrides it for
+ * this streamer only. The channel's own message filter rules are edited in the
+ * message filter panel (filters.ts).
+ */
+
+import {
+    CHANNEL_OVERRIDES_STORAGE_KEY,
+    loadChannelOverrides,
+    normalizeChannelOverrides,
+    saveChannelOverrides,
+    setChannelOverride,
+    type ChannelOverride,
+    type ChannelOverrides,
+} from "../config/channels";
+import type { TranslateMode } from "../config/defaults";
+import { loadFilterConfig } from "../config/filters";
+import { LANGUAGES } from "../config/languages";
+import type { ChannelInfoRequest, ChannelInfoResponse } from "../shared/messages";
+
+const section = document.getElementById("channelSection")!;
+const heading = document.getElementById("channelHeading")!;
+const enabledSelect = document.getElementById("channelEnabled") as HTMLSelectElement;
+const sourceLangSelect = document.getElementById("channelSourceLang") as HTMLSelectElement;
+const targetLangSelect = document.getElementById("channelTargetLang") as HTMLSelectElement;
+const translateModeSelect = document.getElementById("channelTranslateMode") as HTMLSelectElement;
+const translateFilterInput = document.getElementById("channelTranslateFilter") as HTMLInputElement;
+const minForeignRatioSelect = document.getElementById("channelMinForeignRatio") as HTMLSelectElement;
+const messageFilterSelect = document.getElementById("channelMessageFilter") as HTMLSelectElement;
+const resetButton = document.getElementById("channelReset") as HTMLButtonElement;
+
+let overrides: ChannelOverrides = {};
+let streamerId = "";
+
+/** Channel of the active tab; empty when it is not a SOOP channel page. */
+export function activeChannel(): Promise<ChannelInfoResponse> {
+    return new Promise((resolve) => {
+        chrome.tabs.query({ active: true, currentWindow: true }, ([tab]) => {
+            if (tab?.id === undefined) return resolve({});
+            const request: ChannelInfoRequest = { type: "CHANNEL_INFO" };
+            // Tabs without the content script (not a SOOP page) answer with an error
+            chrome.tabs.sendMessage(tab.id, request, (response: ChannelInfoResponse | undefined) => {
+                resolve(chrome.runtime.lastError || !response ? {} : response);
+            });
+        });
+    });
+}
+
+function render() {
+    const override = overrides[streamerId] ?? {};
+    enabledSelect.value = override.enabled === undefined ? "" : String(override.enabled);
+    sourceLangSelect.value = override.sourceLang ?? "";
+    targetLangSelect.value = override.targetLang ?? "";
+    translateModeSelect.value = override.translateMode ?? "";
+    translateFilterInput.value = override.translateFilter ?? "";
+    minForeignRatioSelect.value = override.minForeignRatio === undefined ? "" : override.minForeignRatio.toString();
+    messageFilterSelect.value = override.messageFilter ? "custom" : "";
+    resetButton.disabled = Object.keys(override).length === 0;
+}
+
+/** The override as currently shown; "" means the global setting applies. Own filter rules are kept. */
+function draft(): ChannelOverride {
+    const value = (select: HTMLSelectElement | HTMLInputElement) => select.value.trim() || undefined;
+    return {
+        enabled: enabledSelect.value ? enabledSelect.value === "true" : undefined,
+        sourceLang: value(sourceLangSelect),
+        targetLang: value(targetLangSelect),
+        translateMode: value(translateModeSelect) as TranslateMode | undefined,
+        translateFilter: value(translateFilterInput),
+        minForeignRatio: minForeignRatioSelect.value ? parseFloat(minForeignRatioSelect.value) : undefined,
+        messageFilter: messageFilterSelect.value ? overrides[streamerId]?.messageFilter : undefined,
+    };
+}
+
+async function update(override: ChannelOverride) {
+    overrides = setChannelOverride(overrides, streamerId, override);
+    render();
+    await saveChannelOverrides(overrides);
+}
+
+function fillLanguageOptions(select: HTMLSelectElement) {
+    for (const lang of LANGUAGES) {
+        const option = document.createElement("option");
+        option.value = lang.name;
+        option.textContent = lang.label;
+        select.appendChild(option);
+    }
+}
+
+export async function initChannelPanel() {
+    const channel = await activeChannel();
+    if (!channel.streamerId) return;
+    streamerId = channel.streamerId;
+
+    heading.textContent = `이 채널 설정 · @${streamerId}` + (channel.broadcastNo ? ` · 방송 ${channel.broadcastNo}` : "");
+    fillLanguageOptions(sourceLangSelect);
+    fillLanguageOptions(targetLangSelect);
+    overrides = await loadChannelOverrides();
+    render();
+    section.hidden = false;
+
+    for (const select of [enabledSelect, sourceLangSelect, targetLangSelect, translateModeSelect, minForeignRatioSelect]) {
+        select.addEventListener("change", () => void update(draft()));
+    }
+    translateFilterInput.addEventListener("change", () => void update(draft()));
+    messageFilterSelect.addEventListener("change", async () => {
+        // The channel's own rules start as a copy of the global ones
+        const messageFilter = messageFilterSelect.value ? await loadFilterConfig() : undefined;
+        void update({ ...draft(), messageFilter });
+    });
+    resetButton.addEventListener("click", () => void update({}));
+
+    // The message filter panel saves this channel's rules too
+    chrome.storage.onChanged.addListener((changes, area) => {
+        if (area !== "local" || !changes[CHANNEL_OVERRIDES_STORAGE_KEY]) return;
+        overrides = normalizeChannelOverrides(changes[CHANNEL_OVERRIDES_STORAGE_KEY].newValue);
+        render();
+    });
+}
@@ -0,0 +1,117 @@
+/**
+ * Display options for rendered translations in the popup, with a live preview.
+ *
+ * The preview uses the content script's stylesheet (linked in index.html) and gets
+ * the same attribute and custom properties the content script sets on the page.
+ */
+
+import type { DisplayMode, TranslatorSettings } from "../config/defaults";
+
+const modeSelect = document.getElementById("displayMode") as HTMLSelectElement;
+const fontSizeSelect = document.getElementById("translationFontSize") as HTMLSelectElement;
+const colorInput = document.getElementById("translationColor") as HTMLInputElement;
+const colorResetButton = document.getElementById("translationColorReset") as HTMLButtonElement;
+const prefixInput = document.getElementById("translationPrefix") as HTMLInputElement;
+const showRomanizationToggle = document.getElementById("showRomanization") as HTMLInputElement;
+const showOriginalToggle = document.getElementById("showOriginal") as HTMLInputElement;
+const kanjiReadingsToggle = document.getElementById("kanjiReadings") as HTMLInputElement;
+const preview = document.getElementById("displayPreview")!;
+const previewReading = document.getElementById("displayPreviewReading")!;
+const lightToggle = document.getElementById("displayPreviewLight") as HTMLInputElement;
+
+// Shown in the color picker while the color follows the page theme
+const THEME_COLOR_PLACEHOLDER = "#aaaadd";
+
+type DisplaySettings = Pick<TranslatorSettings,
+    "displayMode" | "translationFontSize" | "translationColor" | "translationPrefix" |
+    "showRomanization" | "showOriginal" | "kanjiReadings">;
+
+let current: DisplaySettings;
+let save: (partial: Partial<TranslatorSettings>) => void = () => { };
+
+/** Quotes text as a CSS string, as src/content/display.ts does. */
+function cssString(text: string): string {
+    return `"${text.replace(/[\\"]/g, "\\$&").replace(/[\r\n]+/g, " ")}"`;
+}
+
+function renderPreview() {
+    preview.setAttribute("data-soop-display", current.displayMode);
+    preview.style.setProperty("--soop-tr-font-size", `${current.translationFontSize}%`);
+    preview.style.setProperty("--soop-tr-prefix", cssString(current.translationPrefix));
+    if (current.translationColor) {
+        preview.style.setProperty("--soop-tr-color", current.translationColor);
+    } else {
+        preview.style.removeProperty("--soop-tr-color");
+    }
+    preview.toggleAttribute("data-soop-romanization", current.showRomanization);
+    preview.toggleAttribute("data-soop-original", current.showOriginal);
+    // On the page a reading only exists when it was asked for
+    previewReading.style.display = current.kanjiReadings ? "" : "none";
+}
+
+function update(partial: Partial<DisplaySettings>) {
+    current = { ...current, ...partial };
+    colorResetButton.disabled = !current.translationColor;
+    renderPreview();
+    save(partial);
+}
+
+export function applyDisplaySettings(settings: DisplaySettings) {
+    current = {
+        displayMode: settings.displayMode,
+        translationFontSize: settings.translationFontSize,
+        translationColor: settings.translationColor,
+        translationPrefix: settings.translationPrefix,
+        showRomanization: settings.showRomanization,
+        showOriginal: settings.showOriginal,
+        kanjiReadings: settings.kanjiReadings,
+    };
+    modeSelect.value = current.displayMode;
+    fontSizeSelect.value = current.translationFontSize.toString();
+    colorInput.value = current.translationColor || THEME_COLOR_PLACEHOLDER;
+    colorResetButton.disabled = !current.translationColor;
+    prefixInput.value = current.translationPrefix;
+    showRomanizationToggle.checked = current.showRomanization;
+    showOriginalToggle.checked = current.showOriginal;
+    kanjiReadingsToggle.checked = current.kanjiReadings;
+    renderPreview();
+}
+
+export function initDisplayEditor(saveSettings: (partial: Partial<TranslatorSettings>) => void) {
+    save = saveSettings;
+
+    modeSelect.addEventListener("change", () => {
+        update({ displayMode: modeSelect.value as DisplayMode });
+    });
+    fontSizeSelect.addEventListener("change", () => {
+        update({ translationFontSize: parseInt(fontSizeSelect.value, 10) });
+    });
+    // Dragging in the picker only restyles the preview; the pick is saved on close
+    colorInput.addEventListener("input", () => {
+        current = { ...current, translationColor: colorInput.value };
+        renderPreview();
+    });
+    colorInput.addEventListener("change", () => {
+        update({ translationColor: colorInput.value });
+    });
+    colorResetButton.addEventListener("click", () => {
+        colorInput.value = THEME_COLOR_PLACEHOLDER;
+        update({ translationColor: "" });
+    });
+    // The prefix is short, so every keystroke updates the preview and storage
+    prefixInput.addEventListener("input", () => {
+        update({ translationPrefix: prefixInput.value });
+    });
+    showRomanizationToggle.addEventListener("change", () => {
+        update({ showRomanization: showRomanizationToggle.checked });
+    });
+    showOriginalToggle.addEventListener("change", () => {
+        update({ showOriginal: showOriginalToggle.checked });
+    });
+    kanjiReadingsToggle.addEventListener("change", () => {
+        update({ kanjiReadings: kanjiReadingsToggle.checked });
+    });
+    lightToggle.addEventListener("change", () => {
+        preview.classList.toggle("light", lightToggle.checked);
+    });
+}
@@ -0,0 +1,12 @@
+/**
+ * Saves generated text (exports) as a file through a temporary download link.
+ */
+
+export function download(filename: string, content: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,107 @@
+/**
+ * Fallback endpoint list and endpoint health display in the popup.
+ */
+
+import type { BackendProvider, EndpointConfig, TranslatorSettings } from "../config/defaults";
+import type { EndpointStatus, EndpointStatusResponse } from "../shared/messages";
+
+const list = document.getElementById("fallbackList") as HTMLUListElement;
+const providerSelect = document.getElementById("fallbackProvider") as HTMLSelectElement;
+const apiBaseInput = document.getElementById("fallbackApiBase") as HTMLInputElement;
+const modelInput = document.getElementById("fallbackModel") as HTMLInputElement;
+const apiKeyInput = document.getElementById("fallbackApiKey") as HTMLInputElement;
+const addButton = document.getElementById("fallbackAdd") as HTMLButtonElement;
+const endpointStatusList = document.getElementById("endpointStatus") as HTMLUListElement;
+
+// Refresh interval for the health display while the popup is open
+const STATUS_POLL_MS = 3000;
+
+const STATE_LABELS: Record<EndpointStatus["state"], string> = {
+    "closed": "정상",
+    "half-open": "복구 확인 중",
+    "open": "차단됨",
+};
+
+let endpoints: EndpointConfig[] = [];
+let save: (partial: Partial<TranslatorSettings>) => void = () => { };
+
+function hostOf(apiBase: string): string {
+    try {
+        return new URL(apiBase).host;
+    } catch (e) {
+        return apiBase;
+    }
+}
+
+function renderList() {
+    list.innerHTML = "";
+    endpoints.forEach((endpoint, index) => {
+        const li = document.createElement("li");
+
+        const label = document.createElement("span");
+        label.textContent = `${index + 1}. ${hostOf(endpoint.apiBase)} (${endpoint.provider})`;
+        label.title = `${endpoint.apiBase} ${endpoint.model}`;
+
+        const remove = document.createElement("button");
+        remove.type = "button";
+        remove.className = "icon-button";
+        remove.textContent = "✕";
+        remove.title = "삭제";
+        remove.addEventListener("click", () => {
+            endpoints = endpoints.filter((_, i) => i !== index);
+            renderList();
+            save({ fallbackEndpoints: endpoints });
+        });
+
+        li.append(label, remove);
+        list.appendChild(li);
+    });
+}
+
+/** Shows the fallback list from (re)loaded settings. */
+export function applyFallbackEndpoints(next: EndpointConfig[]) {
+    endpoints = Array.isArray(next) ? next : [];
+    renderList();
+}
+
+function renderStatus(statuses: EndpointStatus[]) {
+    endpointStatusList.innerHTML = "";
+    for (const status of statuses) {
+        const li = document.createElement("li");
+        li.className = `endpoint-${status.state}${status.active ? " endpoint-active" : ""}`;
+        li.textContent = `${status.active ? "▶ " : ""}${hostOf(status.apiBase)} · ${STATE_LABELS[status.state]} · 실패 ${status.totalFailures}` +
+            (status.consecutiveFailures > 0 ? ` (연속 ${status.consecutiveFailures})` : "");
+        if (status.lastError) li.title = status.lastError;
+        endpointStatusList.appendChild(li);
+    }
+}
+
+function loadStatus() {
+    chrome.runtime.sendMessage({ type: "ENDPOINT_STATUS" }, (response: EndpointStatusResponse) => {
+        if (chrome.runtime.lastError || !response?.success || !response.endpoints) return;
+        renderStatus(response.endpoints);
+    });
+}
+
+export function initEndpointEditor(saveSettings: (partial: Partial<TranslatorSettings>) => void) {
+    save = saveSettings;
+
+    addButton.addEventListener("click", () => {
+        const apiBase = apiBaseInput.value.trim();
+        if (!apiBase) return;
+        endpoints = [...endpoints, {
+            provider: providerSelect.value as BackendProvider,
+            apiBase,
+            model: modelInput.value.trim(),
+            apiKey: apiKeyInput.value.trim(),
+        }];
+        apiBaseInput.value = "";
+        modelInput.value = "";
+        apiKeyInput.value = "";
+        renderList();
+        save({ fallbackEndpoints: endpoints });
+    });
+
+    loadStatus();
+    window.setInterval(loadStatus, STATUS_POLL_MS);
+}
@@ -0,0 +1,172 @@
+/**
+ * Message filter editor in the popup, with skip counts from the active tab.
+ * On a channel with its own rules (chosen in the channel panel) those are edited
+ * instead of the global ones.
+ */
+
+import {
+    CHANNEL_OVERRIDES_STORAGE_KEY,
+    loadChannelOverrides,
+    normalizeChannelOverrides,
+    saveChannelOverrides,
+    setChannelOverride,
+    type ChannelOverrides,
+} from "../config/channels";
+import {
+    loadFilterConfig,
+    saveFilterConfig,
+    type BuiltinFilterId,
+    type ChatBadge,
+    type FilterRuleKey,
+    type MessageFilterConfig,
+} from "../config/filters";
+import type { FilterStatsRequest, FilterStatsResponse } from "../shared/messages";
+import { activeChannel } from "./channel";
+
+const section = document.getElementById("filterSection")!;
+const scopeNote = document.getElementById("filterScopeNote")!;
+const botNamesInput = document.getElementById("filterBotNames") as HTMLInputElement;
+const patternsInput = document.getElementById("filterPatterns") as HTMLTextAreaElement;
+const patternCounts = document.getElementById("filterPatternCounts") as HTMLUListElement;
+const denyUsersInput = document.getElementById("filterDenyUsers") as HTMLInputElement;
+const allowUsersInput = document.getElementById("filterAllowUsers") as HTMLInputElement;
+const builtinCheckboxes = Array.from(section.querySelectorAll<HTMLInputElement>("input[data-builtin]"));
+const badgeCheckboxes = Array.from(section.querySelectorAll<HTMLInputElement>("input[data-badge]"));
+
+// Refresh interval for the skip counts while the popup is open
+const STATS_POLL_MS = 3000;
+
+let config: MessageFilterConfig;
+let globalConfig: MessageFilterConfig;
+let overrides: ChannelOverrides = {};
+let streamerId = "";
+
+function splitList(value: string, separator: RegExp): string[] {
+    return value.split(separator).map((s) => s.trim()).filter(Boolean);
+}
+
+function render() {
+    for (const checkbox of builtinCheckboxes) {
+        checkbox.checked = config.builtins[checkbox.dataset.builtin as BuiltinFilterId] !== false;
+    }
+    for (const checkbox of badgeCheckboxes) {
+        checkbox.checked = config.badges.includes(checkbox.dataset.badge as ChatBadge);
+    }
+    botNamesInput.value = config.botNames.join(", ");
+    patternsInput.value = config.patterns.join("\n");
+    denyUsersInput.value = config.denyUsers.join(", ");
+    allowUsersInput.value = config.allowUsers.join(", ");
+}
+
+function channelRules(): MessageFilterConfig | undefined {
+    return streamerId ? overrides[streamerId]?.messageFilter : undefined;
+}
+
+/** Shows the rules in effect on the active tab's channel. */
+function resolveRules() {
+    const rules = channelRules();
+    config = rules ?? globalConfig;
+    scopeNote.hidden = !rules;
+    scopeNote.textContent = rules ? `@${streamerId} 채널 전용 규칙을 편집합니다. 이 채널 설정에서 '전체 설정 따름'으로 바꾸면 전체 규칙을 씁니다.` : "";
+    render();
+}
+
+/** Flags the first invalid pattern; same flags as the content script uses. */
+function validatePatterns(patterns: string[]): boolean {
+    for (const pattern of patterns) {
+        try {
+            new RegExp(pattern, "iu");
+        } catch (e) {
+            patternsInput.setCustomValidity(`정규식이 올바르지 않습니다: ${pattern}`);
+            return false;
+        }
+    }
+    patternsInput.setCustomValidity("");
+    return true;
+}
+
+async function update(partial: Partial<MessageFilterConfig>) {
+    config = { ...config, ...partial };
+    if (channelRules()) {
+        overrides = setChannelOverride(overrides, streamerId, { ...overrides[streamerId], messageFilter: config });
+        await saveChannelOverrides(overrides);
+    } else {
+        globalConfig = config;
+        await saveFilterConfig(config);
+    }
+}
+
+function renderCounts(counts: Partial<Record<FilterRuleKey, number>>) {
+    for (const el of section.querySelectorAll<HTMLElement>("[data-count]")) {
+        const count = counts[el.dataset.count as FilterRuleKey];
+        el.textContent = count ? `${count}건` : "";
+    }
+
+    patternCounts.innerHTML = "";
+    for (const pattern of config.patterns) {
+        const li = document.createElement("li");
+        const label = document.createElement("span");
+        label.textContent = pattern;
+        const count = document.createElement("span");
+        count.className = "filter-count";
+        count.textContent = `${counts[`pattern:${pattern}`] ?? 0}건`;
+        li.append(label, count);
+        patternCounts.appendChild(li);
+    }
+}
+
+/** Asks the SOOP tab in front for its skip counts; shows nothing on other pages. */
+function loadCounts() {
+    chrome.tabs.query({ active: true, currentWindow: true }, ([tab]) => {
+        if (tab?.id === undefined) return;
+        const request: FilterStatsRequest = { type: "FILTER_STATS" };
+        chrome.tabs.sendMessage(tab.id, request, (response: FilterStatsResponse) => {
+            if (chrome.runtime.lastError || !response?.success) {
+                renderCounts({});
+                return;
+            }
+            renderCounts(response.counts ?? {});
+        });
+    });
+}
+
+export async function initFilterEditor() {
+    globalConfig = await loadFilterConfig();
+    overrides = await loadChannelOverrides();
+    streamerId = (await activeChannel()).streamerId ?? "";
+    resolveRules();
+
+    // The channel panel switches this channel's own rules on and off
+    chrome.storage.onChanged.addListener((changes, area) => {
+        if (area !== "local" || !changes[CHANNEL_OVERRIDES_STORAGE_KEY]) return;
+        overrides = normalizeChannelOverrides(changes[CHANNEL_OVERRIDES_STORAGE_KEY].newValue);
+        // Our own saves change nothing on screen; re-rendering would reset a field being typed in
+        if (JSON.stringify(channelRules() ?? globalConfig) !== JSON.stringify(config)) resolveRules();
+    });
+
+    for (const checkbox of builtinCheckboxes) {
+        checkbox.addEventListener("change", () => {
+            update({ builtins: { ...config.builtins, [checkbox.dataset.builtin as BuiltinFilterId]: checkbox.checked } });
+        });
+    }
+    for (const checkbox of badgeCheckboxes) {
+        checkbox.addEventListener("change", () => {
+            update({
+                badges: badgeCheckboxes.filter((c) => c.checked).map((c) => c.dataset.badge as ChatBadge),
+            });
+        });
+    }
+
+    // Text fields are saved when they lose focus, not on every keystroke
+    botNamesInput.addEventListener("change", () => update({ botNames: splitList(botNamesInput.value, /,/) }));
+    denyUsersInput.addEventListener("change", () => update({ denyUsers: splitList(denyUsersInput.value, /,/) }));
+    allowUsersInput.addEventListener("change", () => update({ allowUsers: splitList(allowUsersInput.value, /,/) }));
+    patternsInput.addEventListener("input", () => validatePatterns(splitList(patternsInput.value, /\n/)));
+    patternsInput.addEventListener("change", () => {
+        const patterns = splitList(patternsInput.value, /\n/);
+        if (validatePatterns(patterns)) update({ patterns });
+    });
+
+    loadCounts();
+    window.setInterval(loadCounts, STATS_POLL_MS);
+}
@@ -0,0 +1,122 @@
+/**
+ * Glossary editor in the popup: add/remove entries and import/export CSV or JSON.
+ */
+
+import {
+    GLOBAL_SCOPE,
+    glossaryFromCsv,
+    glossaryFromJson,
+    glossaryToCsv,
+    glossaryToJson,
+    isProtected,
+    loadGlossary,
+    normalizeEntries,
+    saveGlossary,
+    type GlossaryEntry,
+} from "../config/glossary";
+import { download } from "./download";
+
+const termInput = document.getElementById("glossaryTerm") as HTMLInputElement;
+const translationInput = document.getElementById("glossaryTranslation") as HTMLInputElement;
+const scopeInput = document.getElementById("glossaryScope") as HTMLInputElement;
+const addButton = document.getElementById("glossaryAdd") as HTMLButtonElement;
+const list = document.getElementById("glossaryList") as HTMLUListElement;
+const importInput = document.getElementById("glossaryImportFile") as HTMLInputElement;
+const importButton = document.getElementById("glossaryImport") as HTMLButtonElement;
+const exportCsvButton = document.getElementById("glossaryExportCsv") as HTMLButtonElement;
+const exportJsonButton = document.getElementById("glossaryExportJson") as HTMLButtonElement;
+const message = document.getElementById("glossaryMessage")!;
+
+let entries: GlossaryEntry[] = [];
+
+function render() {
+    list.innerHTML = "";
+    for (const entry of entries) {
+        const li = document.createElement("li");
+
+        const label = document.createElement("span");
+        label.className = "glossary-entry";
+        label.textContent = isProtected(entry)
+            ? `${entry.term} (번역 안 함)`
+            : `${entry.term} → ${entry.translation}`;
+        if (entry.scope !== GLOBAL_SCOPE) {
+            const scope = document.createElement("span");
+            scope.className = "glossary-scope";
+            scope.textContent = `@${entry.scope}`;
+            label.appendChild(scope);
+        }
+
+        const remove = document.createElement("button");
+        remove.type = "button";
+        remove.className = "icon-button";
+        remove.textContent = "✕";
+        remove.title = "삭제";
+        remove.addEventListener("click", () => update(entries.filter((e) => e !== entry)));
+
+        li.append(label, remove);
+        list.appendChild(li);
+    }
+}
+
+function showMessage(text: string) {
+    message.textContent = text;
+    message.hidden = !text;
+}
+
+async function importGlossary(file: File) {
+    try {
+        const text = await file.text();
+        const imported = file.name.toLowerCase().endsWith(".json")
+            ? glossaryFromJson(text)
+            : glossaryFromCsv(text);
+        if (imported.length === 0) {
+            showMessage("가져올 용어가 없습니다. 파일 형식을 확인해 주세요.");
+            return;
+        }
+        // Imported entries replace existing ones with the same term and scope
+        await update([...entries, ...imported]);
+    } catch (e) {
+        const reason = e instanceof SyntaxError ? "올바른 JSON 파일이 아닙니다" : e instanceof Error ? e.message : "알 수 없는 오류";
+        showMessage(`가져오지 못했습니다: ${reason}`);
+    }
+}
+
+async function update(next: GlossaryEntry[]) {
+    entries = normalizeEntries(next);
+    render();
+    await saveGlossary(entries);
+}
+
+export async function initGlossaryEditor() {
+    entries = await loadGlossary();
+    render();
+
+    addButton.addEventListener("click", () => {
+        const term = termInput.value.trim();
+        if (!term) return;
+        update([...entries, {
+            term,
+            translation: translationInput.value.trim(),
+            scope: scopeInput.value.trim().toLowerCase() || GLOBAL_SCOPE,
+        }]);
+        termInput.value = "";
+        translationInput.value = "";
+    });
+
+    importButton.addEventListener("click", () => {
+        showMessage("");
+        importInput.click();
+    });
+    importInput.addEventListener("change", () => {
+        const file = importInput.files?.[0];
+        importInput.value = "";
+        if (file) void importGlossary(file);
+    });
+
+    exportCsvButton.addEventListener("click", () => {
+        download("soop-glossary.csv", glossaryToCsv(entries), "text/csv");
+    });
+    exportJsonButton.addEventListener("click", () => {
+        download("soop-glossary.json", glossaryToJson(entries), "application/json");
+    });
+}
@@ -3,7 +3,30 @@
  * Reads and writes settings to chrome.storage.local.
  */
 
-import { DEFAULT_SETTINGS, type TranslatorSettings } from "../config/defaults";
+import { ApiError, jsonHeaders } from "../api/backend";
+import { modelListUrl, parseModelIds } from "../api/models";
+import {
+    DEFAULT_SETTINGS,
+    PROVIDER_DEFAULT_API_BASE,
+    type BackendProvider,
+    type QueueDropPolicy,
+    type TargetCategory,
+    type TranslateMode,
+    type TranslatorSettings,
+} from "../config/defaults";
+import { hasHostPermission, requestHostPermission } from "../config/hosts";
+import { LANGUAGES } from "../config/languages";
+import { syncActiveProfile } from "../config/profiles";
+import type { CacheStats, CacheStatsResponse } from "../shared/messages";
+import { initBackupPanel } from "./backup";
+import { initChannelPanel } from "./channel";
+import { applyDisplaySettings, initDisplayEditor } from "./display";
+import { applyFallbackEndpoints, initEndpointEditor } from "./endpoints";
+import { initFilterEditor } from "./filters";
+import { initGlossaryEditor } from "./glossary";
+import { initMetricsPanel } from "./metrics";
+import { initProfilePicker } from "./profiles";
+import { initPromptEditor } from "./prompts";
 
 const enableToggle = document.getElementById(
     "enableToggle"
@@ -14,29 +37,120 @@ const sourceLangSelect = document.getElementById(
 const targetLangSelect = document.getElementById(
     "targetLang"
 ) as HTMLSelectElement;
+const outgoingTargetLangSelect = document.getElementById(
+    "outgoingTargetLang"
+) as HTMLSelectElement;
 const maxConcurrentSelect = document.getElementById(
     "maxConcurrent"
 ) as HTMLSelectElement;
+const batchSizeSelect = document.getElementById(
+    "batchSize"
+) as HTMLSelectElement;
+const contextWindowSizeSelect = document.getElementById(
+    "contextWindowSize"
+) as HTMLSelectElement;
+const contextTokenBudgetSelect = document.getElementById(
+    "contextTokenBudget"
+) as HTMLSelectElement;
+const requestTimeoutSelect = document.getElementById(
+    "requestTimeout"
+) as HTMLSelectElement;
+const queueMaxLengthSelect = document.getElementById(
+    "queueMaxLength"
+) as HTMLSelectElement;
+const queueMaxAgeSelect = document.getElementById(
+    "queueMaxAge"
+) as HTMLSelectElement;
+const queueDropPolicySelect = document.getElementById(
+    "queueDropPolicy"
+) as HTMLSelectElement;
+const streamingToggle = document.getElementById(
+    "streamingToggle"
+) as HTMLInputElement;
 
+const translateModeSelect = document.getElementById("translateMode") as HTMLSelectElement;
+const translateFilterRow = document.getElementById("translateFilterRow")!;
+const translateTargetCheckboxes = Array.from(
+    document.querySelectorAll<HTMLInputElement>("#translateTargets input[data-target]")
+);
+const translateFilterInput = document.getElementById("translateFilterInput") as HTMLInputElement;
+const shortcutLineCountSelect = document.getElementById("shortcutLineCount") as HTMLSelectElement;
+const minForeignRatioSelect = document.getElementById("minForeignRatio") as HTMLSelectElement;
+const transcriptEnabledToggle = document.getElementById("transcriptEnabled") as HTMLInputElement;
+const transcriptRetentionSelect = document.getElementById("transcriptRetentionDays") as HTMLSelectElement;
+const transcriptOpenButton = document.getElementById("transcriptOpen") as HTMLButtonElement;
+const correctionsOpenButton = document.getElementById("correctionsOpen") as HTMLButtonElement;
+const providerSelect = document.getElementById("providerSelect") as HTMLSelectElement;
 const apiBaseInput = document.getElementById("apiBaseInput") as HTMLInputElement;
 const modelInput = document.getElementById("modelInput") as HTMLInputElement;
 const modelList = document.getElementById("modelList") as HTMLDataListElement;
+const modelListError = document.getElementById("modelListError")!;
+const hostPermissionRow = document.getElementById("hostPermissionRow")!;
+const hostPermissionGrantButton = document.getElementById("hostPermissionGrant") as HTMLButtonElement;
+const diagnosticsOpenButton = document.getElementById("diagnosticsOpen") as HTMLButtonElement;
 const apiKeyInput = document.getElementById("apiKeyInput") as HTMLInputElement;
+const ollamaKeepAliveInput = document.getElementById("ollamaKeepAliveInput") as HTMLInputElement;
+const llamaCppCachePromptCheckbox = document.getElementById("llamaCppCachePrompt") as HTMLInputElement;
+const cacheHitRate = document.getElementById("cacheHitRate")!;
+const cacheEntries = document.getElementById("cacheEntries")!;
+const cacheClearButton = document.getElementById("cacheClearButton") as HTMLButtonElement;
 const statusDot = document.getElementById("statusDot")!;
 const statusText = document.getElementById("statusText")!;
 
+function fillLanguageOptions(select: HTMLSelectElement) {
+    for (const lang of LANGUAGES) {
+        const option = document.createElement("option");
+        option.value = lang.name;
+        option.textContent = lang.label;
+        select.appendChild(option);
+    }
+}
+
 function applySettings(settings: TranslatorSettings) {
     enableToggle.checked = settings.enabled;
     sourceLangSelect.value = settings.sourceLang || "Auto";
     targetLangSelect.value = settings.targetLang;
+    outgoingTargetLangSelect.value = settings.outgoingTargetLang;
     maxConcurrentSelect.value = settings.maxConcurrentRequests.toString();
+    batchSizeSelect.value = settings.batchSize.toString();
+    streamingToggle.checked = settings.streaming;
+    contextWindowSizeSelect.value = settings.contextWindowSize.toString();
+    contextTokenBudgetSelect.value = settings.contextTokenBudget.toString();
+    requestTimeoutSelect.value = settings.requestTimeoutSeconds.toString();
+    queueMaxLengthSelect.value = settings.queueMaxLength.toString();
+    queueMaxAgeSelect.value = settings.queueMaxAgeSeconds.toString();
+    queueDropPolicySelect.value = settings.queueDropPolicy;
+    translateModeSelect.value = settings.translateMode;
+    translateFilterInput.value = settings.translateFilter;
+    shortcutLineCountSelect.value = settings.shortcutLineCount.toString();
+    minForeignRatioSelect.value = settings.minForeignRatio.toString();
+    for (const checkbox of translateTargetCheckboxes) {
+        checkbox.checked = settings.translateTargets.includes(checkbox.dataset.target as TargetCategory);
+    }
+    showTranslateFilter(settings.translateMode);
+    applyDisplaySettings(settings);
+    transcriptEnabledToggle.checked = settings.transcriptEnabled;
+    transcriptRetentionSelect.value = settings.transcriptRetentionDays.toString();
 
+    providerSelect.value = settings.provider;
     apiBaseInput.value = settings.apiBase;
     modelInput.value = settings.model;
     apiKeyInput.value = settings.apiKey;
+    ollamaKeepAliveInput.value = settings.ollamaKeepAlive;
+    llamaCppCachePromptCheckbox.checked = settings.llamaCppCachePrompt;
+    applyFallbackEndpoints(settings.fallbackEndpoints);
 
     updateStatus(settings.enabled);
-    fetchModels(settings.apiBase, settings.apiKey);
+    showProviderOptions(settings.provider);
+    fetchModels(settings.provider, settings.apiBase, settings.apiKey);
+}
+
+/** Shows only the rows tagged (via `data-providers`) for the selected provider. */
+function showProviderOptions(provider: BackendProvider) {
+    document.querySelectorAll<HTMLElement>("[data-providers]").forEach((row) => {
+        row.hidden = !row.dataset.providers!.split(" ").includes(provider);
+    });
+    apiBaseInput.placeholder = PROVIDER_DEFAULT_API_BASE[provider];
 }
 
 function updateStatus(enabled: boolean) {
@@ -49,47 +163,82 @@ function updateStatus(enabled: boolean) {
     }
 }
 
-async function fetchModels(apiBase: string, apiKey: string) {
+/** Shows the grant button when the extension may not call the API address. */
+async function checkHostPermission(apiBase: string) {
+    hostPermissionRow.hidden = !apiBase || (await hasHostPermission(apiBase));
+}
+
+async function fetchModels(provider: BackendProvider, apiBase: string, apiKey: string) {
+    modelListError.hidden = true;
     if (!apiBase) return;
+    void checkHostPermission(apiBase);
+    // Only chat backends take a model name
+    const url = modelListUrl(provider, apiBase);
+    if (!url) return;
     try {
-        const headers: Record<string, string> = {
-            "Content-Type": "application/json",
-        };
-        if (apiKey) {
-            headers["Authorization"] = `Bearer ${apiKey}`;
-        }
-
-        const url = apiBase.replace(/\/$/, "") + "/v1/models";
-        const response = await fetch(url, { headers });
-        if (!response.ok) return;
-
-        const data = await response.json();
-        const models = Array.isArray(data.data) ? data.data : [];
+        const response = await fetch(url, { headers: jsonHeaders(apiKey) });
+        if (!response.ok) throw new ApiError(response.status, response.statusText);
+        const ids = parseModelIds(provider, await response.json());
 
         modelList.innerHTML = "";
-        for (const model of models) {
-            if (model && model.id) {
-                const option = document.createElement("option");
-                option.value = model.id;
-                modelList.appendChild(option);
-            }
+        for (const id of ids) {
+            const option = document.createElement("option");
+            option.value = id;
+            modelList.appendChild(option);
         }
     } catch (e) {
         console.log("[SOOP Translator] Failed to fetch models:", e);
+        modelListError.textContent = e instanceof ApiError
+            ? `모델 목록을 불러오지 못했습니다 (HTTP ${e.status}). '연결 진단'에서 원인을 확인하세요.`
+            : "서버에 연결하지 못해 모델 목록을 불러오지 못했습니다. '연결 진단'에서 원인을 확인하세요.";
+        modelListError.hidden = false;
     }
 }
 
+function renderCacheStats(stats: CacheStats) {
+    const lookups = stats.hits + stats.misses;
+    cacheHitRate.textContent = lookups > 0
+        ? `${((stats.hits / lookups) * 100).toFixed(1)}% (${stats.hits}/${lookups})`
+        : "-";
+    cacheEntries.textContent = `${stats.entries}개 · ${(stats.bytes / 1024).toFixed(1)} KB`;
+}
+
+function loadCacheStats() {
+    chrome.runtime.sendMessage({ type: "CACHE_STATS" }, (response: CacheStatsResponse) => {
+        if (chrome.runtime.lastError || !response?.success || !response.stats) return;
+        renderCacheStats(response.stats);
+    });
+}
+
 function saveSettings(partial: Partial<TranslatorSettings>) {
     chrome.storage.local.get(DEFAULT_SETTINGS, (current) => {
         const updated = { ...current, ...partial };
         chrome.storage.local.set(updated);
     });
+    syncActiveProfile(partial);
 }
 
-// Load settings on popup open
-chrome.storage.local.get(DEFAULT_SETTINGS, (items) => {
-    applySettings(items as TranslatorSettings);
-});
+function loadSettings() {
+    chrome.storage.local.get(DEFAULT_SETTINGS, (items) => {
+        applySettings(items as TranslatorSettings);
+    });
+}
+
+fillLanguageOptions(sourceLangSelect);
+fillLanguageOptions(targetLangSelect);
+fillLanguageOptions(outgoingTargetLangSelect);
+
+// Load settings on popup open (profile migration runs first)
+initProfilePicker(loadSettings).then(loadSettings);
+loadCacheStats();
+initGlossaryEditor();
+initPromptEditor();
+initBackupPanel();
+initChannelPanel();
+initMetricsPanel();
+initFilterEditor();
+initEndpointEditor(saveSettings);
+initDisplayEditor(saveSettings);
 
 // Event listeners
 enableToggle.addEventListener("change", () => {
@@ -106,10 +255,139 @@ sourceLangSelect.addEventListener("change", () => {
     saveSettings({ sourceLang: sourceLangSelect.value });
 });
 
+outgoingTargetLangSelect.addEventListener("change", () => {
+    saveSettings({ outgoingTargetLang: outgoingTargetLangSelect.value });
+});
+
 maxConcurrentSelect.addEventListener("change", () => {
     saveSettings({ maxConcurrentRequests: parseInt(maxConcurrentSelect.value, 10) });
 });
 
+batchSizeSelect.addEventListener("change", () => {
+    saveSettings({ batchSize: parseInt(batchSizeSelect.value, 10) });
+});
+
+contextWindowSizeSelect.addEventListener("change", () => {
+    saveSettings({ contextWindowSize: parseInt(contextWindowSizeSelect.value, 10) });
+});
+
+contextTokenBudgetSelect.addEventListener("change", () => {
+    saveSettings({ contextTokenBudget: parseInt(contextTokenBudgetSelect.value, 10) });
+});
+
+requestTimeoutSelect.addEventListener("change", () => {
+    saveSettings({ requestTimeoutSeconds: parseInt(requestTimeoutSelect.value, 10) });
+});
+
+queueMaxLengthSelect.addEventListener("change", () => {
+    saveSettings({ queueMaxLength: parseInt(queueMaxLengthSelect.value, 10) });
+});
+
+queueMaxAgeSelect.addEventListener("change", () => {
+    saveSettings({ queueMaxAgeSeconds: parseInt(queueMaxAgeSelect.value, 10) });
+});
+
+queueDropPolicySelect.addEventListener("change", () => {
+    saveSettings({ queueDropPolicy: queueDropPolicySelect.value as QueueDropPolicy });
+});
+
+function showTranslateFilter(mode: TranslateMode) {
+    translateFilterRow.hidden = mode !== "filtered";
+}
+
+translateModeSelect.addEventListener("change", () => {
+    const translateMode = translateModeSelect.value as TranslateMode;
+    showTranslateFilter(translateMode);
+    saveSettings({ translateMode });
+});
+
+let filterTimeout: number;
+translateFilterInput.addEventListener("input", () => {
+    // Invalid patterns are flagged here and never saved
+    const pattern = translateFilterInput.value.trim();
+    try {
+        new RegExp(pattern, "i");
+        translateFilterInput.setCustomValidity("");
+    } catch (e) {
+        translateFilterInput.setCustomValidity("정규식이 올바르지 않습니다");
+        return;
+    }
+    clearTimeout(filterTimeout);
+    filterTimeout = window.setTimeout(() => saveSettings({ translateFilter: pattern }), 500);
+});
+
+for (const checkbox of translateTargetCheckboxes) {
+    checkbox.addEventListener("change", () => {
+        saveSettings({
+            translateTargets: translateTargetCheckboxes
+                .filter((c) => c.checked)
+                .map((c) => c.dataset.target as TargetCategory),
+        });
+    });
+}
+
+shortcutLineCountSelect.addEventListener("change", () => {
+    saveSettings({ shortcutLineCount: parseInt(shortcutLineCountSelect.value, 10) });
+});
+
+minForeignRatioSelect.addEventListener("change", () => {
+    saveSettings({ minForeignRatio: parseFloat(minForeignRatioSelect.value) });
+});
+
+streamingToggle.addEventListener("change", () => {
+    saveSettings({ streaming: streamingToggle.checked });
+});
+
+transcriptEnabledToggle.addEventListener("change", () => {
+    saveSettings({ transcriptEnabled: transcriptEnabledToggle.checked });
+});
+
+transcriptRetentionSelect.addEventListener("change", () => {
+    saveSettings({ transcriptRetentionDays: parseInt(transcriptRetentionSelect.value, 10) });
+});
+
+transcriptOpenButton.addEventListener("click", () => {
+    chrome.tabs.create({ url: chrome.runtime.getURL("src/transcript/index.html") });
+});
+
+correctionsOpenButton.addEventListener("click", () => {
+    chrome.tabs.create({ url: chrome.runtime.getURL("src/corrections/index.html") });
+});
+
+diagnosticsOpenButton.addEventListener("click", () => {
+    void chrome.runtime.openOptionsPage();
+});
+
+hostPermissionGrantButton.addEventListener("click", () => {
+    // Must be requested straight from the click for Chrome to show the prompt
+    void requestHostPermission([apiBaseInput.value.trim()]).then((granted) => {
+        if (granted) fetchModels(providerSelect.value as BackendProvider, apiBaseInput.value.trim(), apiKeyInput.value.trim());
+    });
+});
+
+cacheClearButton.addEventListener("click", () => {
+    cacheClearButton.disabled = true;
+    chrome.runtime.sendMessage({ type: "CACHE_CLEAR" }, (response: CacheStatsResponse) => {
+        cacheClearButton.disabled = false;
+        if (chrome.runtime.lastError || !response?.success || !response.stats) {
+            console.log("[SOOP Translator] Failed to clear cache:", chrome.runtime.lastError ?? response?.error);
+            return;
+        }
+        renderCacheStats(response.stats);
+    });
+});
+
+providerSelect.addEventListener("change", () => {
+    const provider = providerSelect.value as BackendProvider;
+    saveSettings({ provider });
+    showProviderOptions(provider);
+    fetchModels(provider, apiBaseInput.value.trim(), apiKeyInput.value.trim());
+});
+
+llamaCppCachePromptCheckbox.addEventListener("change", () => {
+    saveSettings({ llamaCppCachePrompt: llamaCppCachePromptCheckbox.checked });
+});
+
 // Use a simple debounce for text inputs to avoid spamming storage writes
 let timeout: number;
 function debounceSave() {
@@ -118,17 +396,20 @@ function debounceSave() {
         const apiBase = apiBaseInput.value.trim();
         const model = modelInput.value.trim();
         const apiKey = apiKeyInput.value.trim();
+        const ollamaKeepAlive = ollamaKeepAliveInput.value.trim();
 
         saveSettings({
             apiBase,
             model,
-            apiKey
+            apiKey,
+            ollamaKeepAlive,
         });
 
-        fetchModels(apiBase, apiKey);
+        fetchModels(providerSelect.value as BackendProvider, apiBase, apiKey);
     }, 500);
 }
 
 apiBaseInput.addEventListener("input", debounceSave);
 modelInput.addEventListener("input", debounceSave);
 apiKeyInput.addEventListener("input", debounceSave);
+ollamaKeepAliveInput.addEventListener("input", debounceSave);
@@ -0,0 +1,90 @@
+/**
+ * Live metrics panel in the popup, with a JSON export for comparing models.
+ */
+
+import { DEFAULT_SETTINGS, type TranslatorSettings } from "../config/defaults";
+import type { MetricsRequest, MetricsResponse, MetricsSnapshot } from "../shared/messages";
+import { download } from "./download";
+
+const latencyValue = document.getElementById("metricsLatency")!;
+const throughputValue = document.getElementById("metricsThroughput")!;
+const queueValue = document.getElementById("metricsQueue")!;
+const concurrencyValue = document.getElementById("metricsConcurrency")!;
+const tokensValue = document.getElementById("metricsTokens")!;
+const countsValue = document.getElementById("metricsCounts")!;
+const errorTypesValue = document.getElementById("metricsErrorTypes")!;
+const recentErrorsList = document.getElementById("metricsRecentErrors") as HTMLUListElement;
+const resetButton = document.getElementById("metricsReset") as HTMLButtonElement;
+const exportButton = document.getElementById("metricsExport") as HTMLButtonElement;
+
+// Refresh interval while the popup is open
+const METRICS_POLL_MS = 2000;
+
+// Settings that explain the numbers; saved alongside them in the export
+const EXPORTED_SETTINGS = [
+    "provider", "model", "apiBase", "sourceLang", "targetLang",
+    "maxConcurrentRequests", "batchSize", "streaming", "contextWindowSize", "requestTimeoutSeconds",
+] as const satisfies ReadonlyArray<keyof TranslatorSettings>;
+
+let latest: MetricsSnapshot | null = null;
+
+function formatMs(ms: number | null): string {
+    if (ms === null) return "-";
+    return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function render(metrics: MetricsSnapshot) {
+    latencyValue.textContent = `${formatMs(metrics.latencyMs.p50)} / ${formatMs(metrics.latencyMs.p95)}`;
+    throughputValue.textContent = metrics.messagesPerMinute.toString();
+    queueValue.textContent = `${metrics.queue.queued} / ${metrics.queue.inFlight}`;
+    concurrencyValue.textContent = metrics.concurrency.max > 0
+        ? `${metrics.concurrency.limit} / ${metrics.concurrency.max}`
+        : "-"; // nothing sent yet
+    tokensValue.textContent = metrics.tokens.completions > 0
+        ? `${metrics.tokens.prompt} / ${metrics.tokens.completion}`
+        : "-"; // the server does not report usage
+    countsValue.textContent = `${metrics.translated} / ${metrics.cacheHits} / ${metrics.skipped}`;
+
+    const types = Object.entries(metrics.errorsByType);
+    errorTypesValue.textContent = types.length > 0
+        ? types.map(([type, count]) => `${type} ${count}`).join(", ")
+        : "없음";
+
+    recentErrorsList.innerHTML = "";
+    for (const error of metrics.recentErrors) {
+        const li = document.createElement("li");
+        const time = document.createElement("span");
+        time.className = "metrics-error-time";
+        time.textContent = new Date(error.at).toLocaleTimeString();
+        li.append(time, `[${error.type}] ${error.message}`);
+        recentErrorsList.appendChild(li);
+    }
+}
+
+function loadMetrics(reset = false) {
+    const request: MetricsRequest = { type: "METRICS", reset };
+    chrome.runtime.sendMessage(request, (response: MetricsResponse) => {
+        if (chrome.runtime.lastError || !response?.success || !response.metrics) return;
+        latest = response.metrics;
+        render(response.metrics);
+    });
+}
+
+function exportMetrics() {
+    if (!latest) return;
+    const metrics = latest;
+    chrome.storage.local.get(DEFAULT_SETTINGS, (items) => {
+        const settings = Object.fromEntries(EXPORTED_SETTINGS.map((key) => [key, items[key]]));
+        const exported = { exportedAt: new Date().toISOString(), settings, metrics };
+        const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+        download(`soop-metrics-${stamp}.json`, JSON.stringify(exported, null, 2), "application/json");
+    });
+}
+
+export function initMetricsPanel() {
+    resetButton.addEventListener("click", () => loadMetrics(true));
+    exportButton.addEventListener("click", exportMetrics);
+
+    loadMetrics();
+    window.setInterval(() => loadMetrics(), METRICS_POLL_MS);
+}
@@ -0,0 +1,75 @@
+/**
+ * Profile picker in the popup: switch, create, duplicate, rename and delete profiles.
+ */
+
+import {
+    activateProfile,
+    createProfile,
+    deleteProfile,
+    duplicateProfile,
+    loadProfiles,
+    renameProfile,
+    type ProfileState,
+} from "../config/profiles";
+
+const profileSelect = document.getElementById("profileSelect") as HTMLSelectElement;
+const newButton = document.getElementById("profileNew") as HTMLButtonElement;
+const duplicateButton = document.getElementById("profileDuplicate") as HTMLButtonElement;
+const deleteButton = document.getElementById("profileDelete") as HTMLButtonElement;
+const nameInput = document.getElementById("profileName") as HTMLInputElement;
+const activeLabel = document.getElementById("activeProfileLabel")!;
+
+let state: ProfileState | null = null;
+
+function render(next: ProfileState) {
+    state = next;
+    profileSelect.innerHTML = "";
+    for (const profile of next.profiles) {
+        const option = document.createElement("option");
+        option.value = profile.id;
+        option.textContent = profile.name;
+        profileSelect.appendChild(option);
+    }
+    profileSelect.value = next.activeProfileId;
+
+    const active = next.profiles.find((p) => p.id === next.activeProfileId);
+    nameInput.value = active?.name ?? "";
+    activeLabel.textContent = active?.name ?? "";
+    deleteButton.disabled = next.profiles.length <= 1;
+}
+
+/**
+ * Wires up the picker. `onSwitch` is called after the active profile changed so
+ * the rest of the popup can reload the (now different) settings.
+ */
+export async function initProfilePicker(onSwitch: () => void) {
+    render(await loadProfiles());
+
+    profileSelect.addEventListener("change", async () => {
+        render(await activateProfile(profileSelect.value));
+        onSwitch();
+    });
+
+    newButton.addEventListener("click", async () => {
+        render(await createProfile("새 프로필"));
+        onSwitch();
+        nameInput.select();
+    });
+
+    duplicateButton.addEventListener("click", async () => {
+        const active = state?.profiles.find((p) => p.id === state?.activeProfileId);
+        render(await duplicateProfile(`${active?.name ?? "프로필"} 복사본`));
+        onSwitch();
+    });
+
+    deleteButton.addEventListener("click", async () => {
+        if (!state) return;
+        render(await deleteProfile(state.activeProfileId));
+        onSwitch();
+    });
+
+    nameInput.addEventListener("change", async () => {
+        if (!state) return;
+        render(await renameProfile(state.activeProfileId, nameInput.value));
+    });
+}
@@ -0,0 +1,214 @@
+/**
+ * Prompt template editor in the popup: pick, create, edit and delete presets, check
+ * them, and try one on a sample line before saving.
+ *
+ * The built-in preset is shown read-only; "＋" copies whatever is shown into a new preset.
+ */
+
+import { LANGUAGES } from "../config/languages";
+import {
+    BUILTIN_PRESET_ID,
+    BUILTIN_PROMPT_PRESET,
+    MAX_TOKENS_RANGE,
+    PLACEHOLDERS,
+    TEMPERATURE_RANGE,
+    TOP_P_RANGE,
+    loadPromptPresets,
+    newPresetId,
+    savePromptPresets,
+    validatePreset,
+    type PromptPreset,
+} from "../config/prompts";
+import type { PromptTestRequest, PromptTestResponse } from "../shared/messages";
+
+const presetSelect = document.getElementById("promptPreset") as HTMLSelectElement;
+const newButton = document.getElementById("promptNew") as HTMLButtonElement;
+const deleteButton = document.getElementById("promptDelete") as HTMLButtonElement;
+const nameInput = document.getElementById("promptName") as HTMLInputElement;
+const sourceLangSelect = document.getElementById("promptSourceLang") as HTMLSelectElement;
+const targetLangSelect = document.getElementById("promptTargetLang") as HTMLSelectElement;
+const modelInput = document.getElementById("promptModel") as HTMLInputElement;
+const systemInput = document.getElementById("promptSystem") as HTMLTextAreaElement;
+const singleInput = document.getElementById("promptSingle") as HTMLTextAreaElement;
+const batchInput = document.getElementById("promptBatch") as HTMLTextAreaElement;
+const helpText = document.getElementById("promptHelp")!;
+const temperatureInput = document.getElementById("promptTemperature") as HTMLInputElement;
+const topPInput = document.getElementById("promptTopP") as HTMLInputElement;
+const maxTokensInput = document.getElementById("promptMaxTokens") as HTMLInputElement;
+const problemList = document.getElementById("promptProblems") as HTMLUListElement;
+const saveButton = document.getElementById("promptSave") as HTMLButtonElement;
+const testInput = document.getElementById("promptTestInput") as HTMLInputElement;
+const testButton = document.getElementById("promptTest") as HTMLButtonElement;
+const testResult = document.getElementById("promptTestResult")!;
+
+const textInputs = [nameInput, modelInput, systemInput, singleInput, batchInput, temperatureInput, topPInput, maxTokensInput];
+
+let presets: PromptPreset[] = [];
+let selectedId = BUILTIN_PRESET_ID;
+
+function selected(): PromptPreset {
+    return presets.find((p) => p.id === selectedId) ?? BUILTIN_PROMPT_PRESET;
+}
+
+function renderSelect() {
+    presetSelect.innerHTML = "";
+    for (const preset of [BUILTIN_PROMPT_PRESET, ...presets]) {
+        const option = document.createElement("option");
+        option.value = preset.id;
+        option.textContent = preset.id === BUILTIN_PRESET_ID ? `${preset.name} (내장)` : preset.name;
+        presetSelect.appendChild(option);
+    }
+    presetSelect.value = selectedId;
+}
+
+function show(preset: PromptPreset) {
+    nameInput.value = preset.name;
+    sourceLangSelect.value = preset.sourceLang;
+    targetLangSelect.value = preset.targetLang;
+    modelInput.value = preset.model;
+    systemInput.value = preset.system;
+    singleInput.value = preset.single;
+    batchInput.value = preset.batch;
+    temperatureInput.value = preset.temperature.toString();
+    topPInput.value = preset.topP.toString();
+    maxTokensInput.value = preset.maxTokens.toString();
+
+    const builtin = preset.id === BUILTIN_PRESET_ID;
+    for (const input of textInputs) input.readOnly = builtin;
+    sourceLangSelect.disabled = builtin;
+    targetLangSelect.disabled = builtin;
+    deleteButton.disabled = builtin;
+    testResult.textContent = "";
+    renderProblems();
+}
+
+/** The preset as currently shown in the form. */
+function draft(): PromptPreset {
+    return {
+        id: selectedId,
+        name: nameInput.value.trim(),
+        sourceLang: sourceLangSelect.value,
+        targetLang: targetLangSelect.value,
+        model: modelInput.value.trim(),
+        system: systemInput.value,
+        single: singleInput.value,
+        batch: batchInput.value,
+        temperature: parseFloat(temperatureInput.value),
+        topP: parseFloat(topPInput.value),
+        maxTokens: Number(maxTokensInput.value),
+    };
+}
+
+/** Lists errors and warnings; returns whether the draft can be saved or tested. */
+function renderProblems(): boolean {
+    const { errors, warnings } = validatePreset(draft());
+    problemList.innerHTML = "";
+    for (const [messages, className] of [[errors, "prompt-error"], [warnings, ""]] as const) {
+        for (const message of messages) {
+            const li = document.createElement("li");
+            li.className = className;
+            li.textContent = message;
+            problemList.appendChild(li);
+        }
+    }
+    saveButton.disabled = errors.length > 0 || selectedId === BUILTIN_PRESET_ID;
+    testButton.disabled = errors.length > 0;
+    return errors.length === 0;
+}
+
+function select(id: string) {
+    selectedId = id;
+    renderSelect();
+    show(selected());
+}
+
+async function createPreset() {
+    const current = draft();
+    const preset: PromptPreset = {
+        ...current,
+        id: newPresetId(),
+        name: current.id === BUILTIN_PRESET_ID ? "새 프리셋" : `${current.name} 복사본`,
+    };
+    presets = [...presets, preset];
+    await savePromptPresets(presets);
+    select(preset.id);
+    nameInput.select();
+}
+
+async function deleteSelected() {
+    if (selectedId === BUILTIN_PRESET_ID) return;
+    presets = presets.filter((p) => p.id !== selectedId);
+    await savePromptPresets(presets);
+    select(BUILTIN_PRESET_ID);
+}
+
+async function saveSelected() {
+    if (selectedId === BUILTIN_PRESET_ID || !renderProblems()) return;
+    const preset = draft();
+    presets = presets.map((p) => (p.id === preset.id ? preset : p));
+    await savePromptPresets(presets);
+    renderSelect();
+    saveButton.textContent = "저장됨";
+    window.setTimeout(() => (saveButton.textContent = "저장"), 1500);
+}
+
+function testDraft() {
+    const text = testInput.value.trim();
+    if (!text || !renderProblems()) return;
+
+    const request: PromptTestRequest = { type: "PROMPT_TEST", preset: draft(), text };
+    testButton.disabled = true;
+    testResult.classList.remove("failed");
+    testResult.textContent = "번역 중…";
+    chrome.runtime.sendMessage(request, (response: PromptTestResponse) => {
+        testButton.disabled = false;
+        if (chrome.runtime.lastError || !response?.success) {
+            testResult.classList.add("failed");
+            testResult.textContent = `실패: ${chrome.runtime.lastError?.message ?? response?.error ?? "알 수 없는 오류"}`;
+            return;
+        }
+        testResult.textContent = `${response.result} (${response.ms}ms)`;
+    });
+}
+
+function renderHelp() {
+    helpText.append("자리표시자: ");
+    Object.entries(PLACEHOLDERS).forEach(([name, description], i) => {
+        const code = document.createElement("code");
+        code.textContent = `{{${name}}}`;
+        helpText.append(i > 0 ? " · " : "", code, ` ${description}`);
+    });
+}
+
+function fillLanguageOptions(select: HTMLSelectElement) {
+    for (const lang of LANGUAGES) {
+        const option = document.createElement("option");
+        option.value = lang.name;
+        option.textContent = lang.label;
+        select.appendChild(option);
+    }
+}
+
+export async function initPromptEditor() {
+    fillLanguageOptions(sourceLangSelect);
+    fillLanguageOptions(targetLangSelect);
+    renderHelp();
+    temperatureInput.min = TEMPERATURE_RANGE.min.toString();
+    temperatureInput.max = TEMPERATURE_RANGE.max.toString();
+    topPInput.min = TOP_P_RANGE.min.toString();
+    topPInput.max = TOP_P_RANGE.max.toString();
+    maxTokensInput.min = MAX_TOKENS_RANGE.min.toString();
+    maxTokensInput.max = MAX_TOKENS_RANGE.max.toString();
+
+    presets = await loadPromptPresets();
+    select(BUILTIN_PRESET_ID);
+
+    presetSelect.addEventListener("change", () => select(presetSelect.value));
+    newButton.addEventListener("click", () => void createPreset());
+    deleteButton.addEventListener("click", () => void deleteSelected());
+    saveButton.addEventListener("click", () => void saveSelected());
+    testButton.addEventListener("click", testDraft);
+    for (const input of [...textInputs, sourceLangSelect, targetLangSelect]) {
+        input.addEventListener("input", renderProblems);
+    }
+}
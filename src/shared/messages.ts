@@ -0,0 +1,322 @@
+/**
+ * Message shapes exchanged between the content script and the background worker.
+ *
+ * Type-only module: the content script is a classic (non-module) script, so it must
+ * only `import type` from here. Anything with a runtime value would be split into a
+ * shared chunk that the content script cannot load.
+ */
+
+import type { Correction } from "../config/corrections";
+import type { FilterRuleKey } from "../config/filters";
+import type { PromptPreset } from "../config/prompts";
+
+/** A recent chat line sent along with a request as conversation context. */
+export interface ContextLine {
+    user?: string;
+    text: string;
+    translation?: string; // our own earlier translation, when available
+}
+
+export interface TranslateRequest {
+    type: "TRANSLATE";
+    text: string;
+    context?: ContextLine[]; // oldest first; never translated, only used as prompt context
+    streamerId?: string; // SOOP streamer ID from the page URL or DOM, for channel overrides and glossary entries
+    broadcastNo?: string; // live broadcast (or VOD) number the line belongs to
+    requestId?: number; // per-tab id the content script can later cancel by
+    refresh?: boolean; // re-translate: skip the cache lookup; the new result replaces the cached one
+    outgoing?: boolean; // compose helper: translate from targetLang into outgoingTargetLang
+    visibility?: TabVisibility; // of the sending tab when sent; the background serves focused tabs first
+}
+
+export type TabVisibility = "focused" | "visible" | "hidden";
+
+/** Content → background: the line of an earlier TRANSLATE is no longer needed. */
+export interface CancelRequest {
+    type: "CANCEL";
+    requestId: number;
+}
+
+export interface TranslateResponse {
+    success: boolean;
+    result?: string;
+    error?: string;
+    cached?: boolean;
+    skipped?: boolean;
+    detectedLang?: string; // ISO 639-1 code of the line's language, when known
+    reading?: string; // hiragana reading of Japanese with kanji, with `kanjiReadings` on
+}
+
+// --- Cache (popup → background) ---
+export interface CacheStatsRequest {
+    type: "CACHE_STATS";
+}
+
+export interface CacheClearRequest {
+    type: "CACHE_CLEAR";
+}
+
+export interface CacheStats {
+    entries: number;
+    bytes: number;
+    hits: number;
+    misses: number;
+}
+
+export interface CacheStatsResponse {
+    success: boolean;
+    stats?: CacheStats;
+    error?: string;
+}
+
+// --- Endpoint health (popup → background) ---
+export interface EndpointStatusRequest {
+    type: "ENDPOINT_STATUS";
+}
+
+export interface EndpointStatus {
+    apiBase: string;
+    provider: string;
+    model: string;
+    state: "closed" | "open" | "half-open";
+    active: boolean; // the endpoint new requests currently go to
+    consecutiveFailures: number;
+    totalFailures: number;
+    totalSuccesses: number;
+    lastError?: string;
+}
+
+export interface EndpointStatusResponse {
+    success: boolean;
+    endpoints?: EndpointStatus[];
+    error?: string;
+}
+
+// --- Metrics ---
+/** Content → background: the tab's translation queue changed. */
+export interface QueueStatsReport {
+    type: "QUEUE_STATS";
+    queued: number; // lines waiting to be sent
+    inFlight: number; // lines sent and not yet answered
+}
+
+/** Popup → background: current metrics; `reset` starts a new measurement first. */
+export interface MetricsRequest {
+    type: "METRICS";
+    reset?: boolean;
+}
+
+export interface MetricsError {
+    at: number; // epoch ms
+    type: string; // e.g. "timeout", "network", "HTTP 503", "bad output"
+    message: string;
+}
+
+export interface MetricsSnapshot {
+    since: number; // epoch ms the measurement started (worker start or reset)
+    translated: number; // lines answered by the API
+    cacheHits: number;
+    skipped: number; // already in the target language
+    failed: number;
+    latencyMs: { p50: number | null; p95: number | null; samples: number };
+    messagesPerMinute: number; // lines answered in the last minute, any kind
+    tokens: { prompt: number; completion: number; completions: number }; // completions that reported usage
+    errorsByType: Record<string, number>;
+    recentErrors: MetricsError[]; // newest first
+    queue: { queued: number; inFlight: number; tabs: number }; // summed over tabs
+    concurrency: { limit: number; max: number }; // adaptive limit on in-flight API requests
+    latencySamples: Array<{ at: number; ms: number }>; // for export
+}
+
+export interface MetricsResponse {
+    success: boolean;
+    metrics?: MetricsSnapshot;
+    error?: string;
+}
+
+// --- Transcripts ---
+/** One broadcast's recording, as identified by the content script. */
+export interface TranscriptSessionInfo {
+    id: string; // "<streamerId>/<broadcastNo>", or per day when the page has no broadcast number
+    streamerId?: string;
+    broadcastNo?: string;
+    title?: string;
+}
+
+export interface TranscriptSession extends TranscriptSessionInfo {
+    startedAt: number; // epoch ms of the first recorded line
+    lastAt: number; // epoch ms of the latest recorded line
+    lineCount: number;
+}
+
+/** One chat line; sent again (same lineId) once its translation is known. */
+export interface TranscriptLine {
+    lineId: string; // unique per line, assigned by the content script
+    at: number; // epoch ms the line appeared
+    streamTime?: number; // seconds into the video, on VOD replays
+    messageId?: string; // SOOP's numeric id of the chat message container
+    user?: string;
+    original: string;
+    translation?: string;
+    detectedLang?: string;
+}
+
+/** Content → background: new or updated lines, when recording is on. */
+export interface TranscriptAppendRequest {
+    type: "TRANSCRIPT_APPEND";
+    session: TranscriptSessionInfo;
+    lines: TranscriptLine[];
+}
+
+/** Viewer → background: every recorded session, newest first. */
+export interface TranscriptSessionsRequest {
+    type: "TRANSCRIPT_SESSIONS";
+}
+
+/** Viewer → background: one session's lines in order. */
+export interface TranscriptLinesRequest {
+    type: "TRANSCRIPT_LINES";
+    sessionId: string;
+}
+
+/** Viewer → background: delete a session and its lines; answers with the remaining sessions. */
+export interface TranscriptDeleteRequest {
+    type: "TRANSCRIPT_DELETE";
+    sessionId: string;
+}
+
+export interface TranscriptResponse {
+    success: boolean;
+    sessions?: TranscriptSession[];
+    lines?: TranscriptLine[];
+    error?: string;
+}
+
+// --- Corrections ---
+/**
+ * Content or review page → background: the user's translation of a line, or a report
+ * that its translation is wrong (no `translation`). Replaces the cached translation.
+ */
+export interface CorrectionRequest {
+    type: "CORRECTION";
+    text: string;
+    targetLang?: string; // defaults to the current target language
+    translation?: string;
+    rejected?: string; // the translation shown when the user acted
+    streamerId?: string; // channel the line was seen on; scopes a glossary entry
+    addToGlossary?: boolean; // also add text → translation to the glossary
+}
+
+/** Review page → background: forget a correction; the line is translated afresh next time. */
+export interface CorrectionDeleteRequest {
+    type: "CORRECTION_DELETE";
+    text: string;
+    targetLang: string;
+}
+
+export interface CorrectionResponse {
+    success: boolean;
+    corrections?: Correction[]; // every stored correction after the change
+    error?: string;
+}
+
+// --- Prompt presets (popup → background) ---
+/** Translate `text` once with an unsaved preset on the current endpoint; no cache, no batching. */
+export interface PromptTestRequest {
+    type: "PROMPT_TEST";
+    preset: PromptPreset;
+    text: string;
+}
+
+export interface PromptTestResponse {
+    success: boolean;
+    result?: string;
+    ms?: number; // round trip, including a retry after unusable output
+    error?: string;
+}
+
+/** Every one-shot message the background's onMessage listener accepts. */
+export type BackgroundRequest =
+    | TranslateRequest
+    | CancelRequest
+    | CacheStatsRequest
+    | CacheClearRequest
+    | EndpointStatusRequest
+    | QueueStatsReport
+    | MetricsRequest
+    | TranscriptAppendRequest
+    | TranscriptSessionsRequest
+    | TranscriptLinesRequest
+    | TranscriptDeleteRequest
+    | CorrectionRequest
+    | CorrectionDeleteRequest
+    | PromptTestRequest;
+
+// --- Keyboard shortcuts (background → content) ---
+/** Translate the most recent `shortcutLineCount` chat lines, on demand. */
+export interface TranslateRecentCommand {
+    type: "TRANSLATE_RECENT";
+}
+
+/** Show or hide the compose helper. */
+export interface ToggleComposeCommand {
+    type: "TOGGLE_COMPOSE";
+}
+
+// --- Message filter (popup → content of the active tab) ---
+export interface FilterStatsRequest {
+    type: "FILTER_STATS";
+}
+
+export interface FilterStatsResponse {
+    success: boolean;
+    counts?: Partial<Record<FilterRuleKey, number>>; // skips per rule in that tab
+    error?: string;
+}
+
+// --- Channel (popup → content of the active tab) ---
+export interface ChannelInfoRequest {
+    type: "CHANNEL_INFO";
+}
+
+/** The channel a tab is on; both fields are missing on pages that aren't a channel. */
+export interface ChannelInfoResponse {
+    streamerId?: string;
+    broadcastNo?: string;
+}
+
+/** Every message the content script's onMessage listener accepts. */
+export type ContentRequest = TranslateRecentCommand | ToggleComposeCommand | FilterStatsRequest | ChannelInfoRequest;
+
+// --- Streaming port ---
+// Name of the long-lived `chrome.runtime` port used for streaming translations.
+// Duplicated as a literal in the content script (no runtime imports there).
+export type StreamPortName = "soop-translate-stream";
+
+/** Content → background: translate one line, pushing partial text back as it arrives. */
+export interface StreamTranslateRequest extends TranslateRequest {
+    id: number;
+}
+
+/** Content → background: cancel a streamed request. Its RESULT still arrives, as a failure. */
+export interface StreamCancelRequest {
+    type: "CANCEL";
+    id: number;
+}
+
+export type StreamPortRequest = StreamTranslateRequest | StreamCancelRequest;
+
+/** Background → content: partial translation text so far. */
+export interface StreamPartialMessage {
+    type: "PARTIAL";
+    id: number;
+    text: string;
+}
+
+/** Background → content: final result for a streamed request. */
+export interface StreamResultMessage extends TranslateResponse {
+    type: "RESULT";
+    id: number;
+}
+
+export type StreamPortMessage = StreamPartialMessage | StreamResultMessage;
@@ -0,0 +1,104 @@
+/**
+ * Transcript export formats: JSONL and CSV with every field, SRT and WebVTT subtitles.
+ *
+ * Subtitle times are "stream time": seconds into the video for lines recorded on a
+ * VOD replay, otherwise seconds since the session's first recorded line. `offsetSeconds`
+ * shifts them, e.g. to line up with a recording that started earlier.
+ */
+
+import type { TranscriptLine, TranscriptSession } from "../shared/messages";
+
+export type TranscriptFormat = "jsonl" | "csv" | "srt" | "vtt";
+
+// A cue lasts until the next line, within these bounds
+const MIN_CUE_SECONDS = 1;
+const MAX_CUE_SECONDS = 5;
+
+const CSV_HEADER = ["time", "stream_time", "message_id", "user", "original", "translation", "detected_lang"];
+
+function csvField(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function streamTimeOf(line: TranscriptLine, session: TranscriptSession, offsetSeconds = 0): number {
+    const seconds = line.streamTime ?? (line.at - session.startedAt) / 1000;
+    return Math.max(0, seconds + offsetSeconds);
+}
+
+export function transcriptToJsonl(session: TranscriptSession, lines: TranscriptLine[]): string {
+    return lines.map((line) => JSON.stringify({ sessionId: session.id, ...line })).join("\n") + "\n";
+}
+
+export function transcriptToCsv(session: TranscriptSession, lines: TranscriptLine[]): string {
+    const rows = lines.map((line) => [
+        new Date(line.at).toISOString(),
+        streamTimeOf(line, session).toFixed(3),
+        line.messageId ?? "",
+        line.user ?? "",
+        line.original,
+        line.translation ?? "",
+        line.detectedLang ?? "",
+    ].map(csvField).join(","));
+    return [CSV_HEADER.join(","), ...rows].join("\n") + "\n";
+}
+
+/** "HH:MM:SS,mmm" (SRT) or "HH:MM:SS.mmm" (WebVTT). */
+function timestamp(seconds: number, separator: "," | "."): string {
+    const ms = Math.round(seconds * 1000);
+    const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+    const h = Math.floor(ms / 3600000);
+    const m = Math.floor(ms / 60000) % 60;
+    const s = Math.floor(ms / 1000) % 60;
+    return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+interface Cue {
+    start: number;
+    end: number;
+    text: string;
+}
+
+function cues(session: TranscriptSession, lines: TranscriptLine[], offsetSeconds: number): Cue[] {
+    return lines.map((line, i) => {
+        const start = streamTimeOf(line, session, offsetSeconds);
+        const next = lines[i + 1] ? streamTimeOf(lines[i + 1], session, offsetSeconds) : Infinity;
+        const end = Math.min(start + MAX_CUE_SECONDS, Math.max(start + MIN_CUE_SECONDS, next));
+        const original = line.user ? `${line.user}: ${line.original}` : line.original;
+        // Subtitle text may not contain blank lines, which end a cue
+        const text = [original, line.translation].filter(Boolean).join("\n").replace(/\n{2,}/g, "\n");
+        return { start, end, text };
+    });
+}
+
+export function transcriptToSrt(session: TranscriptSession, lines: TranscriptLine[], offsetSeconds = 0): string {
+    return cues(session, lines, offsetSeconds)
+        .map((cue, i) => `${i + 1}\n${timestamp(cue.start, ",")} --> ${timestamp(cue.end, ",")}\n${cue.text}\n`)
+        .join("\n");
+}
+
+export function transcriptToVtt(session: TranscriptSession, lines: TranscriptLine[], offsetSeconds = 0): string {
+    const body = cues(session, lines, offsetSeconds)
+        .map((cue) => `${timestamp(cue.start, ".")} --> ${timestamp(cue.end, ".")}\n${cue.text.replace(/-->/g, "→")}\n`)
+        .join("\n");
+    return `WEBVTT\n\n${body}`;
+}
+
+/** File contents and MIME type for an export. */
+export function exportTranscript(
+    format: TranscriptFormat,
+    session: TranscriptSession,
+    lines: TranscriptLine[],
+    offsetSeconds = 0
+): { content: string; type: string } {
+    switch (format) {
+        case "jsonl":
+            return { content: transcriptToJsonl(session, lines), type: "application/x-ndjson" };
+        case "csv":
+            // BOM so spreadsheet apps read the Korean text as UTF-8
+            return { content: "\uFEFF" + transcriptToCsv(session, lines), type: "text/csv" };
+        case "srt":
+            return { content: transcriptToSrt(session, lines, offsetSeconds), type: "application/x-subrip" };
+        case "vtt":
+            return { content: transcriptToVtt(session, lines, offsetSeconds), type: "text/vtt" };
+    }
+}
@@ -0,0 +1,160 @@
+/**
+ * Transcript viewer: lists recorded broadcasts, shows their lines and exports them.
+ */
+
+import type {
+    TranscriptDeleteRequest,
+    TranscriptLine,
+    TranscriptLinesRequest,
+    TranscriptResponse,
+    TranscriptSession,
+    TranscriptSessionsRequest,
+} from "../shared/messages";
+import { download } from "../popup/download";
+import { exportTranscript, streamTimeOf, type TranscriptFormat } from "./export";
+
+const sessionList = document.getElementById("sessionList") as HTMLUListElement;
+const sessionEmpty = document.getElementById("sessionEmpty")!;
+const sessionHeading = document.getElementById("sessionHeading")!;
+const lineTable = document.getElementById("lineTable") as HTMLTableSectionElement;
+const offsetInput = document.getElementById("offsetSeconds") as HTMLInputElement;
+const exportButtons = document.querySelectorAll<HTMLButtonElement>("button[data-format]");
+
+let sessions: TranscriptSession[] = [];
+let selected: TranscriptSession | null = null;
+let selectedLines: TranscriptLine[] = [];
+
+function request(message: TranscriptSessionsRequest | TranscriptLinesRequest | TranscriptDeleteRequest): Promise<TranscriptResponse> {
+    return new Promise((resolve, reject) => {
+        chrome.runtime.sendMessage(message, (response: TranscriptResponse) => {
+            if (chrome.runtime.lastError) reject(new Error(chrome.runtime.lastError.message));
+            else if (!response?.success) reject(new Error(response?.error ?? "No response"));
+            else resolve(response);
+        });
+    });
+}
+
+function sessionLabel(session: TranscriptSession): string {
+    return session.title || session.streamerId || session.id;
+}
+
+/** "H:MM:SS" */
+function formatStreamTime(seconds: number): string {
+    const s = Math.floor(seconds);
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `${Math.floor(s / 3600)}:${pad(Math.floor(s / 60) % 60)}:${pad(s % 60)}`;
+}
+
+function renderSessions() {
+    sessionList.innerHTML = "";
+    sessionEmpty.hidden = sessions.length > 0;
+
+    for (const session of sessions) {
+        const li = document.createElement("li");
+        li.classList.toggle("selected", session.id === selected?.id);
+        li.addEventListener("click", () => void selectSession(session));
+
+        const info = document.createElement("div");
+        info.className = "session-info";
+        const title = document.createElement("div");
+        title.className = "session-title";
+        title.textContent = sessionLabel(session);
+        title.title = session.id;
+        const meta = document.createElement("div");
+        meta.className = "session-meta";
+        meta.textContent = `${new Date(session.startedAt).toLocaleString()} · ${session.lineCount}줄`;
+        info.append(title, meta);
+
+        const remove = document.createElement("button");
+        remove.type = "button";
+        remove.textContent = "삭제";
+        remove.addEventListener("click", (e) => {
+            e.stopPropagation();
+            void deleteSession(session);
+        });
+
+        li.append(info, remove);
+        sessionList.appendChild(li);
+    }
+}
+
+function renderLines() {
+    lineTable.innerHTML = "";
+    sessionHeading.textContent = selected ? sessionLabel(selected) : "기록";
+    for (const button of exportButtons) button.disabled = !selected || selectedLines.length === 0;
+    if (!selected) return;
+
+    const session = selected;
+    for (const line of selectedLines) {
+        const row = lineTable.insertRow();
+        const cells: Array<[string, string]> = [
+            ["time", formatStreamTime(streamTimeOf(line, session))],
+            ["user", line.user ?? ""],
+            ["original", line.original],
+            ["translation", line.translation ?? ""],
+            ["lang", line.detectedLang ?? ""],
+        ];
+        for (const [className, text] of cells) {
+            const cell = row.insertCell();
+            cell.className = className;
+            cell.textContent = text;
+        }
+        row.cells[0].title = new Date(line.at).toLocaleString();
+    }
+}
+
+async function loadSessions() {
+    try {
+        sessions = (await request({ type: "TRANSCRIPT_SESSIONS" })).sessions ?? [];
+    } catch (err) {
+        console.error("[SOOP Translator] Failed to load transcript sessions:", err);
+        sessions = [];
+    }
+    renderSessions();
+}
+
+async function selectSession(session: TranscriptSession) {
+    selected = session;
+    selectedLines = [];
+    renderSessions();
+    renderLines();
+    try {
+        const lines = (await request({ type: "TRANSCRIPT_LINES", sessionId: session.id })).lines ?? [];
+        if (selected?.id !== session.id) return; // another session was picked meanwhile
+        selectedLines = lines;
+    } catch (err) {
+        console.error("[SOOP Translator] Failed to load transcript lines:", err);
+    }
+    renderLines();
+}
+
+async function deleteSession(session: TranscriptSession) {
+    if (!confirm(`"${sessionLabel(session)}" 기록 ${session.lineCount}줄을 삭제할까요?`)) return;
+    try {
+        await request({ type: "TRANSCRIPT_DELETE", sessionId: session.id });
+    } catch (err) {
+        console.error("[SOOP Translator] Failed to delete transcript session:", err);
+        return;
+    }
+    if (selected?.id === session.id) {
+        selected = null;
+        selectedLines = [];
+        renderLines();
+    }
+    await loadSessions();
+}
+
+function exportSelected(format: TranscriptFormat) {
+    if (!selected) return;
+    const offset = Number(offsetInput.value) || 0;
+    const { content, type } = exportTranscript(format, selected, selectedLines, offset);
+    const name = sessionLabel(selected).replace(/[\\/:*?"<>|\s]+/g, "_").slice(0, 60);
+    download(`soop-transcript-${name}.${format}`, content, type);
+}
+
+for (const button of exportButtons) {
+    button.addEventListener("click", () => exportSelected(button.dataset.format as TranscriptFormat));
+}
+
+renderLines();
+void loadSessions();
@@ -42,6 +42,9 @@ export default defineConfig({
                 background: resolve(__dirname, "src/background/index.ts"),
                 content: resolve(__dirname, "src/content/index.ts"),
                 popup: resolve(__dirname, "src/popup/index.html"),
+                transcript: resolve(__dirname, "src/transcript/index.html"),
+                corrections: resolve(__dirname, "src/corrections/index.html"),
+                options: resolve(__dirname, "src/options/index.html"),
             },
             output: {
                 entryFileNames: (chunk) => {